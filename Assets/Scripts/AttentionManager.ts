@@ -0,0 +1,261 @@
+/**
+ * Something the robot could look at, reported by an attention provider.
+ */
+export interface AttentionCandidate {
+    id: string; // Stable within its provider, so interest can be tracked across frames
+    position: vec3; // World position
+    salience: number; // How attention-grabbing it is right now, 0-1
+}
+
+/**
+ * A source of look-at candidates (the wearer's head, hands, tagged objects, sounds...).
+ */
+export interface AttentionProvider {
+    name: string;
+    priority: number; // Weight applied to the salience of this provider's candidates
+    habituationRate: number; // Interest lost per second while one of its candidates is attended (decay)
+    getCandidates(now: number): AttentionCandidate[];
+}
+
+/**
+ * Tuning for glancing between candidates. Times in seconds.
+ */
+export interface AttentionSettings {
+    minDwell: number; // Shortest fixation before glancing elsewhere
+    maxDwell: number; // Longest fixation
+    recoveryRate: number; // Interest regained per second by candidates that are not attended
+    interruptMargin: number; // Score lead that cuts a fixation short after half the minimum dwell
+    saccadeDuration: number; // Time the gaze point takes to jump to a new candidate
+    randomness: number; // Chance of picking a candidate in proportion to its score instead of the best one
+}
+
+export const DEFAULT_ATTENTION_SETTINGS: AttentionSettings = {
+    minDwell: 0.8,
+    maxDwell: 3.0,
+    recoveryRate: 0.15,
+    interruptMargin: 0.4,
+    saccadeDuration: 0.15,
+    randomness: 0.35
+};
+
+/**
+ * The candidate currently attended.
+ */
+export interface AttentionFocus {
+    provider: string;
+    id: string;
+    position: vec3;
+    score: number;
+}
+
+/**
+ * A candidate with its provider and current score.
+ */
+interface ScoredCandidate {
+    key: string;
+    provider: AttentionProvider;
+    candidate: AttentionCandidate;
+    score: number;
+}
+
+/**
+ * Picks what the robot looks at among the candidates of several providers.
+ * Each candidate scores priority x salience x interest. Interest fades while a candidate is attended and
+ * recovers while it is not, so the robot glances between targets: it dwells on one for a random time,
+ * then jumps (a short saccade) to the next, and very salient candidates such as a voice interrupt early.
+ */
+export class AttentionManager {
+    private providers: AttentionProvider[] = [];
+    private settings: AttentionSettings;
+    private random: () => number;
+
+    private interest: Map<string, number> = new Map<string, number>();
+    private focusKey: string | null = null;
+    private focus: AttentionFocus | null = null;
+    private focusStartTime: number = 0;
+    private dwellEndTime: number = 0;
+    private gazePoint: vec3 | null = null;
+    private saccadeFrom: vec3 | null = null;
+    private saccadeStartTime: number = 0;
+
+    /**
+     * @param random Source of random numbers in [0, 1), replaceable for repeatable behavior
+     */
+    constructor(settings: AttentionSettings = DEFAULT_ATTENTION_SETTINGS, random: () => number = Math.random) {
+        this.settings = settings;
+        this.random = random;
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Add a provider; a provider with the same name is replaced
+     */
+    public addProvider(provider: AttentionProvider): void {
+        this.removeProvider(provider.name);
+        this.providers.push(provider);
+    }
+
+    public removeProvider(name: string): void {
+        this.providers = this.providers.filter((provider) => provider.name !== name);
+    }
+
+    public getProviders(): AttentionProvider[] {
+        return [...this.providers];
+    }
+
+    public setSettings(settings: AttentionSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * The candidate currently attended, or null if there is none
+     */
+    public getFocus(): AttentionFocus | null {
+        return this.focus;
+    }
+
+    /**
+     * Forget the focus and interest, e.g. when look-at restarts
+     */
+    public reset(): void {
+        this.interest.clear();
+        this.focusKey = null;
+        this.focus = null;
+        this.gazePoint = null;
+        this.saccadeFrom = null;
+    }
+
+    /**
+     * Advance attention by one step
+     * @param now Time in seconds
+     * @param dt Seconds since the previous update
+     * @returns World point to look at, or null when no provider has a candidate
+     */
+    public update(now: number, dt: number): vec3 | null {
+        const candidates = this.scoreCandidates(now);
+        this.updateInterest(candidates, Math.max(0, dt));
+        if (candidates.length === 0) {
+            this.focusKey = null;
+            this.focus = null;
+            return null;
+        }
+
+        const current = candidates.find((scored) => scored.key === this.focusKey) ?? null;
+        if (!current || now >= this.dwellEndTime || this.isInterrupted(current, candidates, now)) {
+            this.shiftFocus(this.chooseNext(candidates, current), now);
+        } else {
+            this.focus = this.toFocus(current);
+        }
+        return this.updateGaze(now);
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Selection
+    // -----------------------------------------------------------------------------------------
+
+    private scoreCandidates(now: number): ScoredCandidate[] {
+        const scored: ScoredCandidate[] = [];
+        this.providers.forEach((provider) => {
+            provider.getCandidates(now).forEach((candidate) => {
+                const key = `${provider.name}/${candidate.id}`;
+                const interest = this.interest.get(key) ?? 1;
+                scored.push({
+                    key: key,
+                    provider: provider,
+                    candidate: candidate,
+                    score: provider.priority * Math.max(0, Math.min(1, candidate.salience)) * interest
+                });
+            });
+        });
+        return scored;
+    }
+
+    /**
+     * Habituate to the attended candidate, let the others recover. Candidates that disappear are
+     * forgotten, so they come back with full interest.
+     */
+    private updateInterest(candidates: ScoredCandidate[], dt: number): void {
+        const next = new Map<string, number>();
+        candidates.forEach((scored) => {
+            const interest = this.interest.get(scored.key) ?? 1;
+            next.set(scored.key, scored.key === this.focusKey
+                ? Math.max(0, interest - scored.provider.habituationRate * dt)
+                : Math.min(1, interest + this.settings.recoveryRate * dt));
+        });
+        this.interest = next;
+    }
+
+    private isInterrupted(current: ScoredCandidate, candidates: ScoredCandidate[], now: number): boolean {
+        if (now - this.focusStartTime < this.settings.minDwell * 0.5) {
+            return false;
+        }
+        return candidates.some((scored) => scored.key !== current.key
+            && scored.score > current.score + this.settings.interruptMargin);
+    }
+
+    /**
+     * Usually the best candidate; sometimes one drawn in proportion to its score, for variety.
+     * The current focus only wins again if nothing else is worth looking at.
+     */
+    private chooseNext(candidates: ScoredCandidate[], current: ScoredCandidate | null): ScoredCandidate {
+        const others = candidates.filter((scored) => scored !== current && scored.score > 0);
+        if (others.length === 0) {
+            return current ?? candidates[0];
+        }
+        if (this.random() < this.settings.randomness) {
+            const total = others.reduce((sum, scored) => sum + scored.score, 0);
+            let pick = this.random() * total;
+            for (const scored of others) {
+                pick -= scored.score;
+                if (pick <= 0) {
+                    return scored;
+                }
+            }
+        }
+        return others.reduce((best, scored) => scored.score > best.score ? scored : best);
+    }
+
+    private shiftFocus(next: ScoredCandidate, now: number): void {
+        if (next.key !== this.focusKey) {
+            this.saccadeFrom = this.gazePoint;
+            this.saccadeStartTime = now;
+            this.focusKey = next.key;
+            this.focusStartTime = now;
+        }
+        const dwell = this.settings.minDwell + this.random() * (this.settings.maxDwell - this.settings.minDwell);
+        this.dwellEndTime = now + dwell;
+        this.focus = this.toFocus(next);
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Gaze
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Follow the focus, jumping to a new one with an eased saccade
+     */
+    private updateGaze(now: number): vec3 {
+        const target = this.focus.position;
+        const t = this.settings.saccadeDuration > 0 ? (now - this.saccadeStartTime) / this.settings.saccadeDuration : 1;
+        if (!this.saccadeFrom || t >= 1) {
+            this.saccadeFrom = null;
+            this.gazePoint = target;
+        } else {
+            const eased = 1 - (1 - t) * (1 - t);
+            this.gazePoint = this.saccadeFrom.add(target.sub(this.saccadeFrom).uniformScale(eased));
+        }
+        return this.gazePoint;
+    }
+
+    private toFocus(scored: ScoredCandidate): AttentionFocus {
+        return {
+            provider: scored.provider.name,
+            id: scored.candidate.id,
+            position: scored.candidate.position,
+            score: scored.score
+        };
+    }
+}
@@ -0,0 +1,145 @@
+import {SIK} from "SpectaclesInteractionKit.lspkg/SIK"
+import {AttentionCandidate, AttentionProvider} from "./AttentionManager"
+import {AttentionTarget} from "./AttentionTarget"
+
+/**
+ * A single point that is always worth a look while it exists, e.g. the wearer's head or the look-at target.
+ */
+export class PointAttentionProvider implements AttentionProvider {
+    public name: string;
+    public priority: number;
+    public habituationRate: number;
+    private getPosition: () => vec3 | null;
+    private salience: number;
+
+    /**
+     * @param getPosition World position of the point, or null while it should be ignored
+     */
+    constructor(name: string, getPosition: () => vec3 | null, priority: number = 1.0, salience: number = 1.0, habituationRate: number = 0.3) {
+        this.name = name;
+        this.getPosition = getPosition;
+        this.priority = priority;
+        this.salience = salience;
+        this.habituationRate = habituationRate;
+    }
+
+    public getCandidates(now: number): AttentionCandidate[] {
+        const position = this.getPosition();
+        return position ? [{id: this.name, position: position, salience: this.salience}] : [];
+    }
+}
+
+/**
+ * The wearer's tracked hands, aimed at the index fingertips. A resting hand is mildly interesting;
+ * a moving one grabs attention in proportion to its speed.
+ */
+export class HandAttentionProvider implements AttentionProvider {
+    public name: string = "hands";
+    public priority: number;
+    public habituationRate: number;
+    private restingSalience: number = 0.2;
+    private fullSalienceSpeed: number = 60; // cm/s
+    private lastPositions: Map<string, vec3> = new Map<string, vec3>();
+    private lastTime: number = -1;
+
+    constructor(priority: number = 0.8, habituationRate: number = 0.6) {
+        this.priority = priority;
+        this.habituationRate = habituationRate;
+    }
+
+    public getCandidates(now: number): AttentionCandidate[] {
+        const dt = this.lastTime >= 0 ? now - this.lastTime : 0;
+        this.lastTime = now;
+
+        const candidates: AttentionCandidate[] = [];
+        (["left", "right"] as const).forEach((handType) => {
+            const hand = SIK.HandInputData.getHand(handType);
+            if (!hand || !hand.isTracked()) {
+                this.lastPositions.delete(handType);
+                return;
+            }
+            const position = hand.indexTip.position;
+            const previous = this.lastPositions.get(handType);
+            const speed = previous && dt > 0 ? position.distance(previous) / dt : 0;
+            this.lastPositions.set(handType, position);
+            candidates.push({
+                id: handType,
+                position: position,
+                salience: Math.min(1, this.restingSalience + speed / this.fullSalienceSpeed)
+            });
+        });
+        return candidates;
+    }
+}
+
+/**
+ * Scene objects tagged with an AttentionTarget component.
+ */
+export class TaggedObjectAttentionProvider implements AttentionProvider {
+    public name: string = "objects";
+    public priority: number;
+    public habituationRate: number;
+
+    constructor(priority: number = 0.6, habituationRate: number = 0.4) {
+        this.priority = priority;
+        this.habituationRate = habituationRate;
+    }
+
+    public getCandidates(now: number): AttentionCandidate[] {
+        return AttentionTarget.getActive().map((target) => ({
+            id: target.getTargetId(),
+            position: target.getPosition(),
+            salience: target.getSalience()
+        }));
+    }
+}
+
+/**
+ * The last sound heard. Its salience is highest when reported and fades over memoryDuration seconds,
+ * so a voice interrupts whatever the robot was looking at and is forgotten after a while.
+ */
+export class SoundAttentionProvider implements AttentionProvider {
+    public name: string = "sound";
+    public priority: number;
+    public habituationRate: number;
+    private memoryDuration: number;
+    private sameSourceDistance: number = 30; // Sounds closer than this to the last one are the same source (cm)
+    private position: vec3 | null = null;
+    private heardTime: number = 0;
+    private sourceCount: number = 0;
+
+    constructor(priority: number = 1.5, habituationRate: number = 0.5, memoryDuration: number = 4.0) {
+        this.priority = priority;
+        this.habituationRate = habituationRate;
+        this.memoryDuration = memoryDuration;
+    }
+
+    /**
+     * Report a sound. A sound from a new place is a new source and gets fresh interest;
+     * one continuing from the same place keeps being habituated to.
+     * @param position World point the sound came from
+     */
+    public report(position: vec3, now: number): void {
+        if (!this.position || position.distance(this.position) > this.sameSourceDistance) {
+            this.sourceCount++;
+        }
+        this.position = position;
+        this.heardTime = now;
+    }
+
+    public clear(): void {
+        this.position = null;
+    }
+
+    public getCandidates(now: number): AttentionCandidate[] {
+        if (!this.position) {
+            return [];
+        }
+        const salience = 1 - (now - this.heardTime) / this.memoryDuration;
+        if (salience <= 0) {
+            this.position = null;
+            return [];
+        }
+        return [{id: `source-${this.sourceCount}`, position: this.position, salience: salience}];
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Tags a scene object as something the robot may glance at while it looks around with the attention
+ * manager. Salience can be raised from other scripts while the object does something noteworthy.
+ */
+@component
+export class AttentionTarget extends BaseScriptComponent {
+    private static targets: AttentionTarget[] = [];
+    private static nextTargetId: number = 1;
+
+    @input
+    @hint("Optional name, shown when this target is the robot's focus")
+    private label: string = "";
+
+    @input
+    @hint("How attention-grabbing this object is, 0-1")
+    private salience: number = 0.5;
+
+    private targetId: string = "";
+
+    onAwake() {
+        this.targetId = `${this.label || "target"}-${AttentionTarget.nextTargetId++}`;
+        this.createEvent("OnStartEvent").bind(() => AttentionTarget.add(this));
+        this.createEvent("OnEnableEvent").bind(() => AttentionTarget.add(this));
+        this.createEvent("OnDisableEvent").bind(() => AttentionTarget.remove(this));
+        this.createEvent("OnDestroyEvent").bind(() => AttentionTarget.remove(this));
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Targets that are currently enabled in the scene
+     */
+    public static getActive(): AttentionTarget[] {
+        return [...AttentionTarget.targets];
+    }
+
+    /**
+     * Id unique among the targets of this lens session
+     */
+    public getTargetId(): string {
+        return this.targetId;
+    }
+
+    public getLabel(): string {
+        return this.label || this.getSceneObject().name;
+    }
+
+    public getPosition(): vec3 {
+        return this.getSceneObject().getTransform().getWorldPosition();
+    }
+
+    public getSalience(): number {
+        return this.salience;
+    }
+
+    public setSalience(salience: number): void {
+        this.salience = Math.max(0, Math.min(1, salience));
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private static add(target: AttentionTarget): void {
+        if (AttentionTarget.targets.indexOf(target) < 0) {
+            AttentionTarget.targets.push(target);
+        }
+    }
+
+    private static remove(target: AttentionTarget): void {
+        AttentionTarget.targets = AttentionTarget.targets.filter((other) => other !== target);
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * How important a sound is when several are requested at once.
+ */
+export enum AudioPriority {
+    Low = 0, // Ambient cues, dropped when anything else is playing
+    Normal = 1, // State and move cues
+    High = 2 // Sounds the user asked for explicitly
+}
+
+/**
+ * A sound waiting to be played on the robot.
+ */
+export interface AudioRequest {
+    file: string;
+    priority: AudioPriority;
+    duration: number; // Estimated seconds the clip occupies the speaker
+    requestedAt: number;
+}
+
+export interface AudioQueueSettings {
+    maxQueueLength: number; // Requests waiting at most; the lowest priority is dropped beyond this
+    maxWait: number; // Seconds a request may wait before it is dropped as stale
+}
+
+/**
+ * Serializes sounds so they don't overlap on the robot's speaker.
+ * One clip plays at a time; waiting requests are ordered by priority, then by arrival.
+ * Low priority requests are dropped instead of queued while something plays.
+ * Time is passed in by the caller.
+ */
+export class AudioQueue {
+    private play: (request: AudioRequest) => Promise<void>;
+    private settings: AudioQueueSettings;
+    private queue: AudioRequest[] = [];
+    private current: AudioRequest | null = null;
+    private busyUntil: number = -Infinity;
+
+    constructor(play: (request: AudioRequest) => Promise<void>, settings: AudioQueueSettings) {
+        this.play = play;
+        this.settings = settings;
+    }
+
+    /**
+     * Request a sound
+     * @returns false if the request was dropped
+     */
+    public enqueue(file: string, priority: AudioPriority, duration: number, now: number): boolean {
+        const request: AudioRequest = {file: file, priority: priority, duration: Math.max(0, duration), requestedAt: now};
+        if (!this.isBusy(now) && this.queue.length === 0) {
+            this.start(request, now);
+            return true;
+        }
+        if (priority === AudioPriority.Low) {
+            return false;
+        }
+
+        // Insert after every request of the same or higher priority
+        let index = this.queue.findIndex((queued) => queued.priority < priority);
+        if (index < 0) {
+            index = this.queue.length;
+        }
+        this.queue.splice(index, 0, request);
+
+        if (this.queue.length > this.settings.maxQueueLength) {
+            const dropped = this.queue.pop();
+            return dropped !== request;
+        }
+        return true;
+    }
+
+    /**
+     * Start the next waiting sound once the current one is over
+     * @param now Current time in seconds
+     */
+    public tick(now: number): void {
+        if (this.isBusy(now)) {
+            return;
+        }
+        this.current = null;
+        this.queue = this.queue.filter((request) => now - request.requestedAt <= this.settings.maxWait);
+        const next = this.queue.shift();
+        if (next) {
+            this.start(next, now);
+        }
+    }
+
+    /**
+     * Drop every waiting request (the playing one finishes)
+     */
+    public clear(): void {
+        this.queue = [];
+    }
+
+    public isBusy(now: number): boolean {
+        return now < this.busyUntil;
+    }
+
+    public getCurrent(): AudioRequest | null {
+        return this.current;
+    }
+
+    public getQueueLength(): number {
+        return this.queue.length;
+    }
+
+    private start(request: AudioRequest, now: number): void {
+        this.current = request;
+        this.busyUntil = now + request.duration;
+        this.play(request).catch((error) => {
+            print(`AudioQueue: Error playing ${request.file}: ${error}`);
+        });
+    }
+}
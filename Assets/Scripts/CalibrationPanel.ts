@@ -0,0 +1,250 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {
+    CalibrationResult,
+    CalibrationSample,
+    parseAnchoredRobotFrame,
+    serializeAnchoredRobotFrame,
+    solveRobotFrame
+} from "./RobotCalibration"
+import {ReachyMiniController} from "./ReachyMiniController"
+import {RobotStateSnapshot} from "./RobotStateSnapshot"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility} from "./UIPanel"
+
+/**
+ * Spatial calibration flow: place the anchor on the robot, start calibration (the motors turn compliant),
+ * aim the robot's head at the marker by hand and capture, move the marker and repeat for two or three
+ * points, then confirm. The fitted robot frame is saved relative to the anchor and applied again in the
+ * next sessions, once the anchor is placed back on the robot.
+ */
+@component
+export class CalibrationPanel extends BaseScriptComponent {
+    @input
+    @hint("Controller whose robot frame is calibrated")
+    private controller!: ReachyMiniController;
+
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("Optional UIFrameAnimator of the panel's frame, toggled by the open button")
+    private frameAnimator: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the calibration panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Marker the robot's head is aimed at for each capture (e.g. a draggable sphere)")
+    private calibrationTarget!: SceneObject;
+
+    @input
+    private startButton!: RectangleButton;
+
+    @input
+    @hint("Button capturing the head direction towards the marker")
+    private captureButton!: RectangleButton;
+
+    @input
+    @hint("Button applying and saving the fitted robot frame")
+    private confirmButton!: RectangleButton;
+
+    @input
+    private cancelButton: RectangleButton;
+
+    @input
+    @hint("Button removing the saved calibration")
+    private clearButton: RectangleButton;
+
+    @input
+    @hint("Text showing the calibration steps and fit quality")
+    private statusLabel!: Text;
+
+    @input
+    @hint("Captures needed before the calibration can be confirmed")
+    private minSamples: number = 2;
+
+    @input
+    @hint("Largest RMS fit error in degrees accepted on confirm")
+    private maxResidualDegrees: number = 8;
+
+    @input
+    @hint("Persistent storage key the robot frame is saved under (use one key per robot)")
+    private storageKey: string = "reachy_calibration";
+
+    private samples: CalibrationSample[] = [];
+    private result: CalibrationResult | null = null;
+    private isCalibrating: boolean = false;
+    private isCapturing: boolean = false;
+    private visibility: PanelVisibility;
+
+    onAwake() {
+        this.loadCalibration();
+
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        if (this.startButton) {
+            this.startButton.onTriggerUp.add(() => this.startCalibration());
+        }
+        if (this.captureButton) {
+            this.captureButton.onTriggerUp.add(() => this.captureSample());
+        }
+        if (this.confirmButton) {
+            this.confirmButton.onTriggerUp.add(() => this.confirmCalibration());
+        }
+        if (this.cancelButton) {
+            this.cancelButton.onTriggerUp.add(() => this.endCalibration("Calibration cancelled"));
+        }
+        if (this.clearButton) {
+            this.clearButton.onTriggerUp.add(() => this.clearCalibration());
+        }
+
+        // Don't leave the motors compliant once the lens closes
+        this.createEvent("OnDestroyEvent").bind(() => {
+            if (this.isCalibrating && this.controller) {
+                this.controller.finishCalibration();
+            }
+        });
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the panel
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        await this.visibility.setVisible(visible);
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Calibration flow
+    // -----------------------------------------------------------------------------------------
+
+    private async startCalibration(): Promise<void> {
+        if (!this.controller || this.isCalibrating) {
+            return;
+        }
+        this.samples = [];
+        this.result = null;
+        if (!(await this.controller.startCalibration())) {
+            this.setStatus("Can't calibrate now (wake the robot first)");
+            return;
+        }
+        this.isCalibrating = true;
+        this.setStatus(`Aim the head at the marker and capture (0 / ${this.minSamples})`);
+    }
+
+    /**
+     * Read the head direction and pair it with the marker's position
+     */
+    private async captureSample(): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!this.isCalibrating || this.isCapturing || !daemon || !daemon.getRobotState || !this.calibrationTarget) {
+            return;
+        }
+
+        this.isCapturing = true;
+        try {
+            const snapshot: RobotStateSnapshot = await daemon.getRobotState({timeout: 1.0});
+            if (!this.isCalibrating) {
+                return; // Cancelled while reading
+            }
+            this.samples.push({
+                target: this.calibrationTarget.getTransform().getWorldPosition(),
+                headYaw: snapshot.headPose.yaw,
+                headPitch: snapshot.headPose.pitch
+            });
+            this.result = solveRobotFrame(this.samples, this.controller.getAnchorHeadPosition() ?? vec3.zero());
+            const error = this.result ? (this.result.residual * 180 / Math.PI).toFixed(1) : "--";
+            const next = this.samples.length < this.minSamples
+                ? "move the marker and capture again"
+                : "confirm, or capture more points";
+            this.setStatus(`${this.samples.length} / ${this.minSamples} captured, error ${error}°: ${next}`);
+        } catch (error) {
+            print(`CalibrationPanel: Error reading head pose: ${error}`);
+            this.setStatus("Could not read the head pose");
+        } finally {
+            this.isCapturing = false;
+        }
+    }
+
+    private async confirmCalibration(): Promise<void> {
+        if (!this.isCalibrating || !this.result) {
+            return;
+        }
+        if (this.samples.length < this.minSamples) {
+            this.setStatus(`Capture at least ${this.minSamples} points first`);
+            return;
+        }
+        const residualDegrees = this.result.residual * 180 / Math.PI;
+        if (residualDegrees > this.maxResidualDegrees) {
+            this.samples = [];
+            this.result = null;
+            this.setStatus(`Fit error ${residualDegrees.toFixed(1)}° is too large, captures cleared: try again`);
+            return;
+        }
+
+        // Saved relative to the anchor: world coordinates change every time the lens starts
+        this.controller.setRobotFrame(this.result.frame);
+        const anchoredFrame = this.controller.getAnchoredRobotFrame();
+        if (this.storageKey && anchoredFrame) {
+            global.persistentStorageSystem.store.putString(this.storageKey, serializeAnchoredRobotFrame(anchoredFrame));
+        }
+        await this.endCalibration(`Calibrated (error ${residualDegrees.toFixed(1)}°)`);
+    }
+
+    private async endCalibration(status: string): Promise<void> {
+        if (!this.isCalibrating) {
+            return;
+        }
+        this.isCalibrating = false;
+        this.samples = [];
+        this.result = null;
+        this.setStatus(status);
+        await this.controller.finishCalibration();
+    }
+
+    private clearCalibration(): void {
+        if (this.controller) {
+            this.controller.setRobotFrame(null);
+        }
+        if (this.storageKey) {
+            global.persistentStorageSystem.store.remove(this.storageKey);
+        }
+        this.setStatus("Calibration cleared, using the anchor");
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Apply the saved robot frame, if any
+     */
+    private loadCalibration(): void {
+        if (!this.storageKey || !this.controller) {
+            this.setStatus("Not calibrated");
+            return;
+        }
+        const store = global.persistentStorageSystem.store;
+        if (!store.has(this.storageKey)) {
+            this.setStatus("Not calibrated");
+            return;
+        }
+        try {
+            this.controller.setAnchoredRobotFrame(parseAnchoredRobotFrame(store.getString(this.storageKey)));
+            this.setStatus("Using saved calibration");
+        } catch (error) {
+            print(`CalibrationPanel: Invalid saved calibration, ignoring: ${error}`);
+            this.setStatus("Not calibrated");
+        }
+    }
+
+    private setStatus(status: string): void {
+        if (this.statusLabel) {
+            this.statusLabel.text = status;
+        }
+    }
+}
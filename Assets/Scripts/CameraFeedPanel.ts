@@ -0,0 +1,151 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility} from "./UIPanel"
+
+/**
+ * Shows what the robot sees: polls camera snapshots from the daemon while the panel is visible
+ * and displays them on an Image, with frame rate and latency.
+ * Place the panel's frame next to the robot to check its view while steering it.
+ */
+@component
+export class CameraFeedPanel extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("UIFrameAnimator of the panel's frame, used to show/hide the feed")
+    private frameAnimator!: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the camera panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Image the camera frames are shown on")
+    private image!: Image;
+
+    @input
+    @hint("Button freezing / unfreezing the current frame")
+    private freezeButton: RectangleButton;
+
+    @input
+    @hint("Optional text on the freeze button")
+    private freezeLabel: Text;
+
+    @input
+    @hint("Text showing frame rate and latency")
+    private statsLabel!: Text;
+
+    @input
+    @hint("Snapshots requested per second while the panel is visible")
+    private pollRateHz: number = 5;
+
+    private visibility: PanelVisibility;
+    private isFrozen: boolean = false;
+    private inFlight: boolean = false;
+    private nextPollTime: number = 0;
+    private lastFrameTime: number = -1;
+    private frameRate: number = 0; // Smoothed frames per second
+    private latencyMs: number = -1; // Smoothed request-to-texture time, -1 until a frame arrived
+    private failedFrames: number = 0;
+    private readonly STATS_SMOOTHING: number = 0.2;
+
+    onAwake() {
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        if (this.freezeButton) {
+            this.freezeButton.onTriggerUp.add(() => this.setFrozen(!this.isFrozen));
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            if (this.visibility.isVisible() && !this.isFrozen && !this.inFlight && getTime() >= this.nextPollTime) {
+                this.pollFrame();
+            }
+        });
+
+        this.renderStats();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the camera feed; frames are only requested while it is visible
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        if (visible) {
+            this.lastFrameTime = -1;
+        }
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Freeze on the current frame, or resume the feed
+     */
+    public setFrozen(frozen: boolean): void {
+        this.isFrozen = frozen;
+        this.lastFrameTime = -1; // Don't count the frozen time in the frame rate
+        if (this.freezeLabel) {
+            this.freezeLabel.text = frozen ? "Resume" : "Freeze";
+        }
+        this.renderStats();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Feed
+    // -----------------------------------------------------------------------------------------
+
+    private async pollFrame(): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.getCameraSnapshot) {
+            return;
+        }
+
+        const requestTime = getTime();
+        this.inFlight = true;
+        this.nextPollTime = requestTime + 1 / Math.max(0.1, this.pollRateHz);
+        try {
+            const texture: Texture = await daemon.getCameraSnapshot({timeout: 2.0});
+            if (this.isFrozen) {
+                return; // Frozen while the frame was loading, keep the frozen one
+            }
+            if (this.image) {
+                this.image.mainPass.baseTex = texture;
+            }
+            this.updateStats(requestTime);
+        } catch (error) {
+            this.failedFrames++;
+            if (this.failedFrames === 1 || this.failedFrames % 20 === 0) {
+                print(`CameraFeedPanel: Error fetching camera frame (${this.failedFrames} failed): ${error}`);
+            }
+        } finally {
+            this.inFlight = false;
+        }
+        this.renderStats();
+    }
+
+    private updateStats(requestTime: number): void {
+        const now = getTime();
+        const latency = (now - requestTime) * 1000;
+        this.latencyMs = this.latencyMs < 0 ? latency : this.latencyMs + (latency - this.latencyMs) * this.STATS_SMOOTHING;
+
+        if (this.lastFrameTime >= 0 && now > this.lastFrameTime) {
+            const rate = 1 / (now - this.lastFrameTime);
+            this.frameRate = this.frameRate <= 0 ? rate : this.frameRate + (rate - this.frameRate) * this.STATS_SMOOTHING;
+        }
+        this.lastFrameTime = now;
+    }
+
+    private renderStats(): void {
+        if (!this.statsLabel) {
+            return;
+        }
+        if (this.isFrozen) {
+            this.statsLabel.text = "Frozen";
+            return;
+        }
+        const latency = this.latencyMs < 0 ? "--" : `${Math.round(this.latencyMs)} ms`;
+        this.statsLabel.text = `${this.frameRate.toFixed(1)} fps  |  ${latency}`;
+    }
+}
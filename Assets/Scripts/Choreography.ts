@@ -0,0 +1,108 @@
+import {XYZRPYPose} from "./DaemonInterface"
+
+/** Version written by serializeChoreography; older versions are upgraded when parsed */
+export const CHOREOGRAPHY_FORMAT_VERSION: number = 1;
+
+/** Interpolation modes supported by /api/move/goto */
+export const INTERPOLATION_MODES: string[] = ["linear", "minjerk", "ease", "cartoon"];
+
+/**
+ * One pose of a choreography, reached with a goto of the given duration and interpolation.
+ */
+export interface ChoreographyKeyframe {
+    headPose: XYZRPYPose;
+    bodyYaw: number;
+    antennas: [number, number]; // [right, left] in radians
+    duration: number; // Seconds to reach the pose from the previous one
+    interpolation: string; // One of INTERPOLATION_MODES
+    audioCue?: string; // Audio file played on the robot when the keyframe starts
+}
+
+/**
+ * An ordered list of keyframes played one after the other.
+ */
+export interface ChoreographyTimeline {
+    name: string;
+    keyframes: ChoreographyKeyframe[];
+}
+
+/**
+ * Total playback time of a timeline in seconds
+ */
+export function getTimelineDuration(timeline: ChoreographyTimeline): number {
+    return timeline.keyframes.reduce((sum, keyframe) => sum + keyframe.duration, 0);
+}
+
+/**
+ * Serialize a timeline to versioned JSON, using the daemon's snake_case field names.
+ */
+export function serializeChoreography(timeline: ChoreographyTimeline): string {
+    return JSON.stringify({
+        version: CHOREOGRAPHY_FORMAT_VERSION,
+        name: timeline.name,
+        keyframes: timeline.keyframes.map((keyframe) => {
+            const data: any = {
+                head_pose: keyframe.headPose,
+                body_yaw: keyframe.bodyYaw,
+                antennas: keyframe.antennas,
+                duration: keyframe.duration,
+                interpolation: keyframe.interpolation
+            };
+            if (keyframe.audioCue) {
+                data.audio_cue = keyframe.audioCue;
+            }
+            return data;
+        })
+    });
+}
+
+/**
+ * Parse a timeline written by serializeChoreography.
+ * Missing pose fields default to 0, duration to 1 s and interpolation to minjerk.
+ * @throws Error if the JSON is invalid, from a newer format version, or has no keyframe list
+ */
+export function parseChoreographyJson(json: string): ChoreographyTimeline {
+    const data = JSON.parse(json);
+    if (!data || typeof data !== "object") {
+        throw new Error(`Choreography must be a JSON object`);
+    }
+    const version = numberOr(data.version, 1);
+    if (version > CHOREOGRAPHY_FORMAT_VERSION) {
+        throw new Error(`Choreography format version ${version} is newer than supported version ${CHOREOGRAPHY_FORMAT_VERSION}`);
+    }
+    if (!Array.isArray(data.keyframes)) {
+        throw new Error(`Choreography needs a "keyframes" array`);
+    }
+    return {
+        name: typeof data.name === "string" ? data.name : "Untitled",
+        keyframes: data.keyframes.map((item: any, index: number) => {
+            if (!item || typeof item !== "object") {
+                throw new Error(`Choreography keyframe ${index} must be an object`);
+            }
+            const pose = item.head_pose || {};
+            const antennas = Array.isArray(item.antennas) ? item.antennas : [];
+            const keyframe: ChoreographyKeyframe = {
+                headPose: {
+                    x: numberOr(pose.x, 0),
+                    y: numberOr(pose.y, 0),
+                    z: numberOr(pose.z, 0),
+                    roll: numberOr(pose.roll, 0),
+                    pitch: numberOr(pose.pitch, 0),
+                    yaw: numberOr(pose.yaw, 0)
+                },
+                bodyYaw: numberOr(item.body_yaw, 0),
+                antennas: [numberOr(antennas[0], 0), numberOr(antennas[1], 0)],
+                duration: Math.max(0, numberOr(item.duration, 1.0)),
+                interpolation: INTERPOLATION_MODES.indexOf(item.interpolation) >= 0 ? item.interpolation : "minjerk"
+            };
+            if (typeof item.audio_cue === "string" && item.audio_cue.length > 0) {
+                keyframe.audioCue = item.audio_cue;
+            }
+            return keyframe;
+        })
+    };
+}
+
+function numberOr(value: any, fallback: number): number {
+    return typeof value === "number" && isFinite(value) ? value : fallback;
+}
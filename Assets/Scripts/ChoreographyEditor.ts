@@ -0,0 +1,360 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {Switch} from "SpectaclesUIKit.lspkg/Scripts/Components/Switch/Switch"
+import {
+    ChoreographyKeyframe,
+    ChoreographyTimeline,
+    getTimelineDuration,
+    INTERPOLATION_MODES,
+    parseChoreographyJson,
+    serializeChoreography
+} from "./Choreography"
+import {AudioPriority} from "./AudioQueue"
+import {ChoreographyPlayer, PlaybackState} from "./ChoreographyPlayer"
+import {MoveUUID} from "./DaemonInterface"
+import {wait} from "./Delay"
+import {ReachyMiniController} from "./ReachyMiniController"
+import {RobotAudio} from "./RobotAudio"
+import {RobotClaim} from "./RobotClaim"
+import {RobotStateSnapshot} from "./RobotStateSnapshot"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility, setText} from "./UIPanel"
+
+/**
+ * In-AR choreography editor: captures the robot's current pose as keyframes and plays the timeline back.
+ * While the editor is open or playing it takes the robot from the controller's idle loop (like a replay),
+ * so the robot holds still between captures and playback isn't overridden; make the motors compliant
+ * to pose it by hand. The robot is only taken while the controller is Idle.
+ */
+@component
+export class ChoreographyEditor extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("Controller of the same robot, paused while the editor is open or playing")
+    private controller!: ReachyMiniController;
+
+    @input
+    @hint("Optional RobotAudio queue for the keyframes' audio cues (played directly when not set)")
+    private robotAudio: RobotAudio;
+
+    @input
+    @hint("Optional UIFrameAnimator of the editor's frame, toggled by the open button")
+    private frameAnimator: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the editor panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Optional choreography JSON loaded on start (see Choreography.ts for the format)")
+    private choreographyJson: string = "";
+
+    @input
+    @hint("Persistent storage key the timeline is saved under after each edit (empty = don't persist)")
+    private storageKey: string = "reachy_choreography";
+
+    @input
+    @hint("Button capturing the robot's current pose as a new keyframe")
+    private captureButton!: RectangleButton;
+
+    @input
+    @hint("Button removing the last keyframe")
+    private removeLastButton!: RectangleButton;
+
+    @input
+    @hint("Button cycling the duration of new keyframes")
+    private durationButton: RectangleButton;
+
+    @input
+    @hint("Button cycling the interpolation of new keyframes")
+    private interpolationButton: RectangleButton;
+
+    @input
+    @hint("Durations in seconds offered by the duration button")
+    private durations: number[] = [0.5, 1.0, 1.5, 2.0, 3.0];
+
+    @input
+    private playButton!: RectangleButton;
+
+    @input
+    private pauseButton!: RectangleButton;
+
+    @input
+    private stopButton!: RectangleButton;
+
+    @input
+    @hint("Optional Switch looping the timeline")
+    private loopSwitch: Switch;
+
+    @input
+    @hint("Button printing the timeline JSON to the logs")
+    private exportButton: RectangleButton;
+
+    @input
+    @hint("Text showing the keyframe count and the settings of new keyframes")
+    private timelineLabel!: Text;
+
+    @input
+    @hint("Text showing capture / playback status")
+    private statusLabel!: Text;
+
+    private player: ChoreographyPlayer = new ChoreographyPlayer({
+        goto: (keyframe: ChoreographyKeyframe) => (this.daemonInterface as any).goto(
+            keyframe.headPose, keyframe.bodyYaw, keyframe.duration, keyframe.interpolation, keyframe.antennas),
+        stopMove: (uuid: string) => (this.daemonInterface as any).stopMove(uuid),
+        playAudio: async (file: string) => {
+            if (this.robotAudio) {
+                this.robotAudio.play(file, AudioPriority.High);
+            } else {
+                await (this.daemonInterface as any).playAudio(file);
+            }
+        },
+        isMoveRunning: async (uuid: string) => {
+            const runningMoves: MoveUUID[] = await (this.daemonInterface as any).getRunningMoves();
+            return runningMoves.some((move) => move.uuid === uuid);
+        },
+        wait: (seconds: number) => wait(this, seconds)
+    });
+    private durationIndex: number = 1;
+    private interpolationIndex: number = 1; // minjerk
+    private isCapturing: boolean = false;
+    private robotClaim: RobotClaim;
+    private visibility: PanelVisibility;
+
+    onAwake() {
+        this.player.setTimeline(this.loadTimeline());
+        this.robotClaim = new RobotClaim(this.controller);
+
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        if (this.captureButton) {
+            this.captureButton.onTriggerUp.add(() => this.captureKeyframe());
+        }
+        if (this.removeLastButton) {
+            this.removeLastButton.onTriggerUp.add(() => this.removeLastKeyframe());
+        }
+        if (this.durationButton) {
+            this.durationButton.onTriggerUp.add(() => {
+                this.durationIndex = (this.durationIndex + 1) % Math.max(1, this.durations.length);
+                this.renderTimeline();
+            });
+        }
+        if (this.interpolationButton) {
+            this.interpolationButton.onTriggerUp.add(() => {
+                this.interpolationIndex = (this.interpolationIndex + 1) % INTERPOLATION_MODES.length;
+                this.renderTimeline();
+            });
+        }
+        if (this.playButton) {
+            this.playButton.onTriggerUp.add(() => this.play());
+        }
+        if (this.pauseButton) {
+            this.pauseButton.onTriggerUp.add(() => this.player.pause());
+        }
+        if (this.stopButton) {
+            this.stopButton.onTriggerUp.add(() => this.player.stop());
+        }
+        if (this.loopSwitch) {
+            this.loopSwitch.onValueChange.add((value: number) => this.player.setLooping(value === 1));
+        }
+        if (this.exportButton) {
+            this.exportButton.onTriggerUp.add(() => {
+                print(`ChoreographyEditor: ${serializeChoreography(this.player.getTimeline())}`);
+                this.setStatus("Exported to logs");
+            });
+        }
+
+        this.player.onStateChanged.add((state: PlaybackState) => {
+            this.setStatus(state === PlaybackState.Stopped ? "Stopped" : state === PlaybackState.Paused
+                ? `Paused at ${this.player.getCurrentIndex() + 1}` : "Playing");
+        });
+        this.player.onKeyframeStarted.add((index: number) => {
+            this.setStatus(`▶ ${index + 1} / ${this.player.getTimeline().keyframes.length}`);
+        });
+
+        this.createEvent("UpdateEvent").bind(() => this.syncRobotClaim());
+
+        // Don't leave a goto chain running once the lens closes
+        this.createEvent("OnDestroyEvent").bind(() => {
+            this.player.stop();
+            this.robotClaim.release();
+        });
+
+        this.renderTimeline();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the editor
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        if (visible) {
+            this.robotClaim.claim().then((claimed) => {
+                if (!claimed) {
+                    this.setStatus("Robot not idle: it may move between captures");
+                }
+            });
+        }
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Play or resume the timeline once the robot is taken from the controller
+     */
+    public async play(): Promise<void> {
+        if (this.player.getState() === PlaybackState.Playing) {
+            return;
+        }
+        if (!(await this.robotClaim.claim())) {
+            this.setStatus("Return the robot to idle to play");
+            return;
+        }
+        this.player.play();
+    }
+
+    /**
+     * Get the player, e.g. to follow its playback from another component (start it with play())
+     */
+    public getPlayer(): ChoreographyPlayer {
+        return this.player;
+    }
+
+    /**
+     * Replace the timeline with one parsed from JSON
+     * @throws Error if the JSON is not a valid choreography
+     */
+    public loadJson(json: string): void {
+        this.player.setTimeline(parseChoreographyJson(json));
+        this.saveTimeline();
+        this.renderTimeline();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Editing
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Read the robot's pose and append it as a keyframe with the selected duration and interpolation
+     */
+    private async captureKeyframe(): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.getRobotState || this.isCapturing) {
+            return;
+        }
+        if (this.player.getState() !== PlaybackState.Stopped) {
+            this.setStatus("Stop playback to edit");
+            return;
+        }
+
+        this.isCapturing = true;
+        this.setStatus("Capturing...");
+        try {
+            const snapshot: RobotStateSnapshot = await daemon.getRobotState({timeout: 1.0});
+            const timeline = this.player.getTimeline();
+            const keyframe: ChoreographyKeyframe = {
+                headPose: snapshot.headPose,
+                bodyYaw: snapshot.bodyYaw,
+                antennas: [snapshot.antennas[0], snapshot.antennas[1]],
+                duration: this.getSelectedDuration(),
+                interpolation: INTERPOLATION_MODES[this.interpolationIndex]
+            };
+            this.player.setTimeline({name: timeline.name, keyframes: [...timeline.keyframes, keyframe]});
+            this.saveTimeline();
+            this.renderTimeline();
+            this.setStatus(`Captured keyframe ${timeline.keyframes.length + 1}`);
+        } catch (error) {
+            print(`ChoreographyEditor: Error capturing keyframe: ${error}`);
+            this.setStatus("Could not read robot pose");
+        } finally {
+            this.isCapturing = false;
+        }
+    }
+
+    private removeLastKeyframe(): void {
+        const timeline = this.player.getTimeline();
+        if (timeline.keyframes.length === 0) {
+            return;
+        }
+        this.player.setTimeline({name: timeline.name, keyframes: timeline.keyframes.slice(0, -1)});
+        this.saveTimeline();
+        this.renderTimeline();
+        this.setStatus("Removed last keyframe");
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Robot
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Stop playback if another mode took the robot, hand it back once the editor is closed and stopped
+     */
+    private syncRobotClaim(): void {
+        if (this.robotClaim.wasTakenOver()) {
+            if (this.player.getState() !== PlaybackState.Stopped) {
+                this.player.stop();
+                this.setStatus("Playback interrupted"); // Another mode took the robot over
+            }
+        } else if (this.robotClaim.isHolding() && !this.visibility.isVisible()
+            && this.player.getState() === PlaybackState.Stopped) {
+            this.robotClaim.release();
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Persistence
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Load the saved timeline, else the inspector JSON, else an empty timeline
+     */
+    private loadTimeline(): ChoreographyTimeline {
+        const sources: string[] = [];
+        if (this.storageKey) {
+            const store = global.persistentStorageSystem.store;
+            if (store.has(this.storageKey)) {
+                sources.push(store.getString(this.storageKey));
+            }
+        }
+        if (this.choreographyJson && this.choreographyJson.trim().length > 0) {
+            sources.push(this.choreographyJson);
+        }
+
+        for (const json of sources) {
+            try {
+                return parseChoreographyJson(json);
+            } catch (error) {
+                print(`ChoreographyEditor: Invalid choreography, skipping: ${error}`);
+            }
+        }
+        return {name: "Untitled", keyframes: []};
+    }
+
+    private saveTimeline(): void {
+        if (!this.storageKey) {
+            return;
+        }
+        global.persistentStorageSystem.store.putString(this.storageKey, serializeChoreography(this.player.getTimeline()));
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private getSelectedDuration(): number {
+        return this.durations[this.durationIndex] ?? 1.0;
+    }
+
+    private renderTimeline(): void {
+        const timeline = this.player.getTimeline();
+        setText(this.timelineLabel, `${timeline.keyframes.length} keyframes, ${getTimelineDuration(timeline).toFixed(1)}s`
+            + `  |  next: ${this.getSelectedDuration().toFixed(1)}s ${INTERPOLATION_MODES[this.interpolationIndex]}`);
+    }
+
+    private setStatus(status: string): void {
+        setText(this.statusLabel, status);
+    }
+}
@@ -0,0 +1,210 @@
+import Event, {PublicApi} from "SpectaclesInteractionKit.lspkg/Utils/Event"
+import {ChoreographyKeyframe, ChoreographyTimeline} from "./Choreography"
+
+/**
+ * Callbacks used by the player to drive the robot, provided by the component hosting it.
+ */
+export interface ChoreographyPlayerHost {
+    /** Start a goto to the keyframe's pose, resolving with the move UUID */
+    goto(keyframe: ChoreographyKeyframe): Promise<string>;
+    /** Stop a running move */
+    stopMove(uuid: string): Promise<void>;
+    /** Play an audio file on the robot */
+    playAudio(file: string): Promise<void>;
+    /** Whether the move is still listed as running */
+    isMoveRunning(uuid: string): Promise<boolean>;
+    /** Resolve after the given number of seconds */
+    wait(seconds: number): Promise<void>;
+}
+
+export enum PlaybackState {
+    Stopped = "stopped",
+    Playing = "playing",
+    Paused = "paused"
+}
+
+/**
+ * Plays a choreography timeline by chaining goto calls: each keyframe starts once the previous move
+ * has completed. Pausing stops the current move and resumes from the same keyframe.
+ */
+export class ChoreographyPlayer {
+    private readonly COMPLETION_POLL_INTERVAL: number = 0.1; // Seconds between running-move checks
+    private readonly COMPLETION_MARGIN: number = 2.0; // Extra seconds to wait past a keyframe's duration
+
+    private host: ChoreographyPlayerHost;
+    private timeline: ChoreographyTimeline = {name: "Untitled", keyframes: []};
+    private state: PlaybackState = PlaybackState.Stopped;
+    private currentIndex: number = 0;
+    private isLooping: boolean = false;
+    private currentMoveUuid: string | null = null;
+    private generation: number = 0; // Bumped on play/pause/stop to end superseded playback loops
+
+    private _onStateChangedEvent: Event<PlaybackState> = new Event<PlaybackState>();
+    readonly onStateChanged: PublicApi<PlaybackState> = this._onStateChangedEvent.publicApi();
+
+    // Event with the index of each keyframe as it starts
+    private _onKeyframeStartedEvent: Event<number> = new Event<number>();
+    readonly onKeyframeStarted: PublicApi<number> = this._onKeyframeStartedEvent.publicApi();
+
+    constructor(host: ChoreographyPlayerHost) {
+        this.host = host;
+    }
+
+    /**
+     * Replace the timeline, stopping any playback
+     */
+    public setTimeline(timeline: ChoreographyTimeline): void {
+        this.stop();
+        this.timeline = timeline;
+    }
+
+    public getTimeline(): ChoreographyTimeline {
+        return this.timeline;
+    }
+
+    public getState(): PlaybackState {
+        return this.state;
+    }
+
+    /**
+     * Index of the keyframe playing, or the one playback resumes from
+     */
+    public getCurrentIndex(): number {
+        return this.currentIndex;
+    }
+
+    public setLooping(isLooping: boolean): void {
+        this.isLooping = isLooping;
+    }
+
+    public getLooping(): boolean {
+        return this.isLooping;
+    }
+
+    /**
+     * Start playback from the beginning, or resume from the paused keyframe
+     */
+    public play(): void {
+        if (this.state === PlaybackState.Playing || this.timeline.keyframes.length === 0) {
+            return;
+        }
+        if (this.state === PlaybackState.Stopped) {
+            this.currentIndex = 0;
+        }
+        this.setState(PlaybackState.Playing);
+        this.run(++this.generation);
+    }
+
+    /**
+     * Stop the current move and hold; play() resumes from the same keyframe
+     */
+    public pause(): void {
+        if (this.state !== PlaybackState.Playing) {
+            return;
+        }
+        this.generation++;
+        this.stopCurrentMove();
+        this.setState(PlaybackState.Paused);
+    }
+
+    /**
+     * Stop playback and rewind to the first keyframe
+     */
+    public stop(): void {
+        if (this.state === PlaybackState.Stopped) {
+            return;
+        }
+        this.generation++;
+        this.stopCurrentMove();
+        this.currentIndex = 0;
+        this.setState(PlaybackState.Stopped);
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Playback
+    // -----------------------------------------------------------------------------------------
+
+    private async run(generation: number): Promise<void> {
+        while (generation === this.generation) {
+            if (this.currentIndex >= this.timeline.keyframes.length) {
+                if (!this.isLooping || this.timeline.keyframes.length === 0) {
+                    this.currentIndex = 0;
+                    this.setState(PlaybackState.Stopped);
+                    return;
+                }
+                this.currentIndex = 0;
+            }
+
+            const index = this.currentIndex;
+            const keyframe = this.timeline.keyframes[index];
+            this._onKeyframeStartedEvent.invoke(index);
+
+            if (keyframe.audioCue) {
+                this.host.playAudio(keyframe.audioCue).catch((error) => {
+                    print(`ChoreographyPlayer: Error playing audio cue ${keyframe.audioCue}: ${error}`);
+                });
+            }
+
+            let uuid: string;
+            try {
+                uuid = await this.host.goto(keyframe);
+            } catch (error) {
+                print(`ChoreographyPlayer: Error starting keyframe ${index}: ${error}`);
+                if (generation === this.generation) {
+                    this.generation++;
+                    this.setState(PlaybackState.Stopped);
+                }
+                return;
+            }
+
+            if (generation !== this.generation) {
+                // Paused or stopped while the goto was starting
+                this.host.stopMove(uuid).catch(() => {});
+                return;
+            }
+            this.currentMoveUuid = uuid;
+
+            await this.waitForCompletion(uuid, keyframe.duration, generation);
+            if (generation !== this.generation) {
+                return;
+            }
+            this.currentMoveUuid = null;
+            this.currentIndex = index + 1;
+        }
+    }
+
+    /**
+     * Wait for the keyframe's duration, then until the daemon no longer lists the move as running
+     */
+    private async waitForCompletion(uuid: string, duration: number, generation: number): Promise<void> {
+        await this.host.wait(duration);
+        const deadline = getTime() + this.COMPLETION_MARGIN;
+        while (generation === this.generation && getTime() < deadline) {
+            try {
+                if (!(await this.host.isMoveRunning(uuid))) {
+                    return;
+                }
+            } catch (error) {
+                return; // Can't tell, move on rather than stall the timeline
+            }
+            await this.host.wait(this.COMPLETION_POLL_INTERVAL);
+        }
+    }
+
+    private stopCurrentMove(): void {
+        const uuid = this.currentMoveUuid;
+        this.currentMoveUuid = null;
+        if (uuid) {
+            this.host.stopMove(uuid).catch((error) => {
+                print(`ChoreographyPlayer: Error stopping move ${uuid}: ${error}`);
+            });
+        }
+    }
+
+    private setState(state: PlaybackState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this._onStateChangedEvent.invoke(state);
+        }
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Health of the link to the Reachy Mini daemon.
+ */
+export enum ConnectionStatus {
+    Connected = "Connected",
+    Degraded = "Degraded", // Reachable, but slow or failing intermittently
+    Disconnected = "Disconnected"
+}
+
+/**
+ * Tuning for the heartbeat and reconnect backoff, in seconds.
+ */
+export interface ConnectionMonitorSettings {
+    heartbeatInterval: number; // Time between health checks while connected
+    slowResponseThreshold: number; // Health checks slower than this mark the link as degraded
+    failuresBeforeDisconnect: number; // Consecutive failed checks before the link is considered down
+    initialBackoff: number; // First retry delay once disconnected
+    maxBackoff: number; // Upper bound for the retry delay
+}
+
+/**
+ * Polls the daemon's health endpoint and tracks the connection status.
+ * While disconnected, retries with exponential backoff instead of the regular heartbeat.
+ */
+export class ConnectionMonitor {
+    private checkHealth: () => Promise<boolean>;
+    private onStatusChanged: (status: ConnectionStatus, previous: ConnectionStatus) => void;
+    private settings: ConnectionMonitorSettings;
+
+    private status: ConnectionStatus = ConnectionStatus.Disconnected;
+    private checkInProgress: boolean = false;
+    private nextCheckTime: number = 0;
+    private consecutiveFailures: number = 0;
+    private backoff: number;
+    private lastResponseTime: number = -1;
+
+    constructor(
+        checkHealth: () => Promise<boolean>,
+        onStatusChanged: (status: ConnectionStatus, previous: ConnectionStatus) => void,
+        settings: ConnectionMonitorSettings
+    ) {
+        this.checkHealth = checkHealth;
+        this.onStatusChanged = onStatusChanged;
+        this.settings = settings;
+        this.backoff = settings.initialBackoff;
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Run a health check if one is due. Call once per frame.
+     */
+    public tick(): void {
+        if (this.checkInProgress || getTime() < this.nextCheckTime) {
+            return;
+        }
+        this.runCheck();
+    }
+
+    /**
+     * Schedule a health check on the next tick, skipping the current heartbeat or backoff delay
+     */
+    public checkNow(): void {
+        this.nextCheckTime = 0;
+    }
+
+    /**
+     * Report a command failure seen outside the heartbeat, so a dead link is noticed sooner
+     */
+    public reportFailure(): void {
+        if (this.status === ConnectionStatus.Connected) {
+            this.setStatus(ConnectionStatus.Degraded);
+            this.checkNow();
+        }
+    }
+
+    public getStatus(): ConnectionStatus {
+        return this.status;
+    }
+
+    /**
+     * Duration of the last successful health check in seconds, or -1 if none succeeded yet
+     */
+    public getLastResponseTime(): number {
+        return this.lastResponseTime;
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Heartbeat
+    // -----------------------------------------------------------------------------------------
+
+    private async runCheck(): Promise<void> {
+        this.checkInProgress = true;
+        const startTime = getTime();
+
+        let healthy = false;
+        try {
+            healthy = await this.checkHealth();
+        } catch (error) {
+            healthy = false;
+        }
+
+        const responseTime = getTime() - startTime;
+        this.checkInProgress = false;
+
+        if (healthy) {
+            this.handleSuccess(responseTime);
+        } else {
+            this.handleFailure();
+        }
+    }
+
+    private handleSuccess(responseTime: number): void {
+        this.consecutiveFailures = 0;
+        this.backoff = this.settings.initialBackoff;
+        this.lastResponseTime = responseTime;
+        this.nextCheckTime = getTime() + this.settings.heartbeatInterval;
+
+        this.setStatus(responseTime > this.settings.slowResponseThreshold
+            ? ConnectionStatus.Degraded
+            : ConnectionStatus.Connected);
+    }
+
+    private handleFailure(): void {
+        this.consecutiveFailures++;
+
+        if (this.consecutiveFailures < this.settings.failuresBeforeDisconnect
+            && this.status !== ConnectionStatus.Disconnected) {
+            // Retry quickly before giving up on the link
+            this.setStatus(ConnectionStatus.Degraded);
+            this.nextCheckTime = getTime() + this.settings.initialBackoff;
+            return;
+        }
+
+        this.setStatus(ConnectionStatus.Disconnected);
+        this.nextCheckTime = getTime() + this.backoff;
+        this.backoff = Math.min(this.backoff * 2, this.settings.maxBackoff);
+    }
+
+    private setStatus(status: ConnectionStatus): void {
+        if (this.status === status) {
+            return;
+        }
+        const previous = this.status;
+        this.status = status;
+        this.onStatusChanged(status, previous);
+    }
+}
@@ -0,0 +1,324 @@
+import Event, {PublicApi} from "SpectaclesInteractionKit.lspkg/Utils/Event"
+import {ConnectionStatus} from "./ConnectionMonitor"
+
+/**
+ * A daemon that answered /api/health during discovery.
+ */
+export interface DiscoveredDaemon {
+    baseUrl: string;
+    responseTime: number; // Seconds the health check took
+}
+
+/**
+ * Base URLs to probe: the explicit hosts first, then every address of the subnet range.
+ * Hosts may be bare addresses, host:port, or full URLs.
+ */
+export function buildCandidateUrls(hosts: string[], subnet: string, rangeStart: number, rangeEnd: number, port: number): string[] {
+    const urls: string[] = [];
+    const addUrl = (url: string) => {
+        if (urls.indexOf(url) < 0) {
+            urls.push(url);
+        }
+    };
+
+    hosts.forEach((host) => {
+        const trimmed = host.trim().replace(/\/+$/, "");
+        if (trimmed.length === 0) {
+            return;
+        }
+        const withScheme = /^https?:\/\//.test(trimmed) ? trimmed : `http://${trimmed}`;
+        addUrl(/:\d+$/.test(withScheme) ? withScheme : `${withScheme}:${port}`);
+    });
+
+    const prefix = subnet.trim().replace(/\.+$/, "");
+    if (prefix.length > 0) {
+        for (let host = Math.max(1, rangeStart); host <= Math.min(254, rangeEnd); host++) {
+            addUrl(`http://${prefix}.${host}:${port}`);
+        }
+    }
+    return urls;
+}
+
+/**
+ * Finds Reachy Mini daemons on the local network by probing /api/health on a host list and a subnet,
+ * and remembers the chosen endpoint in persistent storage.
+ * When the daemon stays unreachable, discovery runs again and switches to the daemon it finds
+ * if there is exactly one; otherwise the choice is left to a DaemonPickerPanel.
+ */
+@component
+export class DaemonDiscovery extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component whose base URL is discovered")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("InternetModule asset for the health probes")
+    private internetModule!: InternetModule;
+
+    @input
+    @hint("Hosts probed first (e.g. 192.168.1.108, reachy.local:8000 or http://10.0.0.5:8000)")
+    private hosts: string[] = [];
+
+    @input
+    @hint("First three parts of the subnet to scan (e.g. 192.168.1), empty to only probe the host list")
+    private subnet: string = "192.168.1";
+
+    @input
+    @hint("First host number of the subnet scan")
+    private rangeStart: number = 1;
+
+    @input
+    @hint("Last host number of the subnet scan")
+    private rangeEnd: number = 254;
+
+    @input
+    @hint("Daemon port used for subnet addresses and hosts without a port")
+    private port: number = 8000;
+
+    @input
+    @hint("Seconds a host has to answer /api/health")
+    private probeTimeout: number = 1.0;
+
+    @input
+    @hint("Probe requests pending at once; a timed-out request keeps its slot until it settles")
+    private maxConcurrentProbes: number = 16;
+
+    @input
+    @hint("Persistent storage key the chosen endpoint is saved under (use one key per robot)")
+    private storageKey: string = "reachy_daemon_endpoint";
+
+    @input
+    @hint("Seconds the daemon must stay disconnected before discovery runs again (0 = never)")
+    private rediscoverAfter: number = 10;
+
+    @input
+    @hint("Minimum seconds between automatic discoveries while the daemon stays unreachable")
+    private rediscoverInterval: number = 60;
+
+    private results: DiscoveredDaemon[] = [];
+    private currentDiscovery: Promise<DiscoveredDaemon[]> | null = null;
+    private probedCount: number = 0;
+    private candidateCount: number = 0;
+    private disconnectedSince: number = -1;
+    private nextAutoDiscoveryTime: number = 0;
+    private pendingFetches: number = 0; // Probe requests not settled yet, including timed-out ones
+    private slotWaiters: (() => void)[] = [];
+
+    // Event for each daemon found while discovery is running
+    private _onDaemonFoundEvent: Event<DiscoveredDaemon> = new Event<DiscoveredDaemon>();
+    readonly onDaemonFound: PublicApi<DiscoveredDaemon> = this._onDaemonFoundEvent.publicApi();
+
+    // Event with all daemons found, sorted by response time, once discovery is done
+    private _onDiscoveryFinishedEvent: Event<DiscoveredDaemon[]> = new Event<DiscoveredDaemon[]>();
+    readonly onDiscoveryFinished: PublicApi<DiscoveredDaemon[]> = this._onDiscoveryFinishedEvent.publicApi();
+
+    // Event with the base URL whenever an endpoint is selected and saved
+    private _onEndpointSelectedEvent: Event<string> = new Event<string>();
+    readonly onEndpointSelected: PublicApi<string> = this._onEndpointSelectedEvent.publicApi();
+
+    onAwake() {
+        const saved = this.getSavedEndpoint();
+        const daemon = this.daemonInterface as any;
+        if (saved && daemon && daemon.setBaseUrl) {
+            print(`DaemonDiscovery: Using saved endpoint ${saved}`);
+            daemon.setBaseUrl(saved);
+        }
+
+        if (daemon && daemon.onConnectionChanged) {
+            daemon.onConnectionChanged.add((status: ConnectionStatus) => {
+                if (status === ConnectionStatus.Disconnected) {
+                    this.disconnectedSince = getTime();
+                } else {
+                    this.disconnectedSince = -1;
+                }
+            });
+        }
+        // The daemon starts out disconnected until its first health check succeeds
+        this.disconnectedSince = getTime();
+
+        this.createEvent("UpdateEvent").bind(() => this.updateRediscovery());
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Probe the host list and subnet for daemons. Joins the running discovery if there is one.
+     * @returns Daemons found, fastest first
+     */
+    public discover(): Promise<DiscoveredDaemon[]> {
+        if (!this.currentDiscovery) {
+            this.currentDiscovery = this.runDiscovery().finally(() => {
+                this.currentDiscovery = null;
+            });
+        }
+        return this.currentDiscovery;
+    }
+
+    /**
+     * Connect the DaemonInterface to a daemon and remember it for the next sessions
+     */
+    public selectEndpoint(baseUrl: string): void {
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.setBaseUrl) {
+            daemon.setBaseUrl(baseUrl);
+        }
+        if (this.storageKey) {
+            global.persistentStorageSystem.store.putString(this.storageKey, baseUrl);
+        }
+        print(`DaemonDiscovery: Selected ${baseUrl}`);
+        this._onEndpointSelectedEvent.invoke(baseUrl);
+    }
+
+    /**
+     * Get the saved endpoint, or null if none was selected yet
+     */
+    public getSavedEndpoint(): string | null {
+        if (!this.storageKey) {
+            return null;
+        }
+        const store = global.persistentStorageSystem.store;
+        return store.has(this.storageKey) ? store.getString(this.storageKey) : null;
+    }
+
+    /**
+     * Get the base URL the DaemonInterface currently uses
+     */
+    public getCurrentEndpoint(): string | null {
+        const daemon = this.daemonInterface as any;
+        return daemon && daemon.getBaseUrl ? daemon.getBaseUrl() : null;
+    }
+
+    /**
+     * Get the daemons found by the last discovery, fastest first
+     */
+    public getResults(): DiscoveredDaemon[] {
+        return [...this.results];
+    }
+
+    public isDiscovering(): boolean {
+        return this.currentDiscovery !== null;
+    }
+
+    /**
+     * Probes done and total of the running (or last) discovery
+     */
+    public getProgress(): {probed: number; total: number} {
+        return {probed: this.probedCount, total: this.candidateCount};
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Discovery
+    // -----------------------------------------------------------------------------------------
+
+    private async runDiscovery(): Promise<DiscoveredDaemon[]> {
+        const candidates = buildCandidateUrls(this.hosts, this.subnet, this.rangeStart, this.rangeEnd, this.port);
+        this.results = [];
+        this.probedCount = 0;
+        this.candidateCount = candidates.length;
+        print(`DaemonDiscovery: Probing ${candidates.length} hosts`);
+
+        // A fixed number of workers pull the next candidate until none are left
+        let nextIndex = 0;
+        const worker = async () => {
+            while (nextIndex < candidates.length) {
+                const baseUrl = candidates[nextIndex++];
+                const responseTime = await this.probe(baseUrl);
+                this.probedCount++;
+                if (responseTime >= 0) {
+                    const found: DiscoveredDaemon = {baseUrl: baseUrl, responseTime: responseTime};
+                    this.results.push(found);
+                    this._onDaemonFoundEvent.invoke(found);
+                }
+            }
+        };
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < Math.max(1, this.maxConcurrentProbes); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+
+        this.results.sort((a, b) => a.responseTime - b.responseTime);
+        print(`DaemonDiscovery: Found ${this.results.length} daemons${this.results.length > 0
+            ? `: ${this.results.map((result) => result.baseUrl).join(", ")}` : ""}`);
+        this._onDiscoveryFinishedEvent.invoke(this.getResults());
+        return this.getResults();
+    }
+
+    /**
+     * Check one host's /api/health. A host that doesn't answer in time counts as absent, but its
+     * request keeps a probe slot until it settles, so no more than maxConcurrentProbes are ever pending.
+     * @returns Response time in seconds, or -1 if it did not answer in time
+     */
+    private async probe(baseUrl: string): Promise<number> {
+        if (!this.internetModule) {
+            return -1;
+        }
+        await this.acquireProbeSlot();
+        const startTime = getTime();
+        return new Promise<number>((resolve) => {
+            let settled = false;
+            const settle = (result: number) => {
+                if (!settled) {
+                    settled = true;
+                    this.removeEvent(timeoutEvent);
+                    resolve(result);
+                }
+            };
+
+            const timeoutEvent = this.createEvent("DelayedCallbackEvent");
+            timeoutEvent.bind(() => settle(-1));
+            timeoutEvent.reset(this.probeTimeout);
+
+            this.internetModule.fetch(new Request(`${baseUrl}/api/health`, {method: "GET"})).then((response: Response) => {
+                settle(response && response.status >= 200 && response.status < 300 ? getTime() - startTime : -1);
+            }).catch(() => settle(-1)).finally(() => this.releaseProbeSlot());
+        });
+    }
+
+    /**
+     * Wait until fewer than maxConcurrentProbes requests are pending, then take a slot
+     */
+    private async acquireProbeSlot(): Promise<void> {
+        while (this.pendingFetches >= Math.max(1, this.maxConcurrentProbes)) {
+            await new Promise<void>((resolve) => this.slotWaiters.push(resolve));
+        }
+        this.pendingFetches++;
+    }
+
+    private releaseProbeSlot(): void {
+        this.pendingFetches--;
+        const waiter = this.slotWaiters.shift();
+        if (waiter) {
+            waiter();
+        }
+    }
+
+    /**
+     * Run discovery once the daemon has been unreachable for a while, and switch to the daemon
+     * it finds when the choice is unambiguous
+     */
+    private async updateRediscovery(): Promise<void> {
+        if (this.rediscoverAfter <= 0 || this.disconnectedSince < 0 || this.isDiscovering()) {
+            return;
+        }
+        const now = getTime();
+        if (now - this.disconnectedSince < this.rediscoverAfter || now < this.nextAutoDiscoveryTime) {
+            return;
+        }
+        this.nextAutoDiscoveryTime = now + this.rediscoverInterval;
+
+        print(`DaemonDiscovery: ${this.getCurrentEndpoint()} not responding, rediscovering`);
+        const results = await this.discover();
+        const current = this.getCurrentEndpoint();
+        if (this.disconnectedSince < 0 || results.some((result) => result.baseUrl === current)) {
+            return; // Reconnected meanwhile, or the current daemon is back
+        }
+        if (results.length === 1) {
+            this.selectEndpoint(results[0].baseUrl);
+        } else if (results.length > 1) {
+            print(`DaemonDiscovery: ${results.length} daemons found, pick one in the daemon picker`);
+        }
+    }
+}
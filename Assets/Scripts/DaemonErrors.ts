@@ -0,0 +1,84 @@
+/**
+ * Base class for every failure reported by DaemonInterface.
+ */
+export class DaemonError extends Error {
+    readonly endpoint: string;
+
+    constructor(message: string, endpoint: string) {
+        super(message);
+        this.name = "DaemonError";
+        this.endpoint = endpoint;
+    }
+}
+
+/**
+ * The request never reached the daemon (unreachable host, malformed URL, socket error...).
+ */
+export class DaemonNetworkError extends DaemonError {
+    readonly cause: any;
+
+    constructor(endpoint: string, cause: any) {
+        super(`Network error calling ${endpoint}: ${cause}`, endpoint);
+        this.name = "DaemonNetworkError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * The daemon did not answer within the allotted time.
+ */
+export class DaemonTimeoutError extends DaemonError {
+    readonly timeout: number; // Seconds
+
+    constructor(endpoint: string, timeout: number) {
+        super(`Request to ${endpoint} timed out after ${timeout}s`, endpoint);
+        this.name = "DaemonTimeoutError";
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * The daemon answered with a non-2xx status.
+ * `detail` holds the daemon's JSON error detail (FastAPI `{"detail": ...}`) when one was sent.
+ */
+export class DaemonHttpError extends DaemonError {
+    readonly status: number;
+    readonly detail: string | null;
+
+    constructor(endpoint: string, status: number, detail: string | null) {
+        super(`Request to ${endpoint} failed with HTTP ${status}${detail ? `: ${detail}` : ""}`, endpoint);
+        this.name = "DaemonHttpError";
+        this.status = status;
+        this.detail = detail;
+    }
+}
+
+/**
+ * The daemon answered, but the body could not be parsed or did not have the expected shape.
+ */
+export class DaemonResponseError extends DaemonError {
+    constructor(endpoint: string, reason: string) {
+        super(`Malformed response from ${endpoint}: ${reason}`, endpoint);
+        this.name = "DaemonResponseError";
+    }
+}
+
+/**
+ * The request was abandoned through its CancellationToken.
+ */
+export class DaemonCancelledError extends DaemonError {
+    constructor(endpoint: string) {
+        super(`Request to ${endpoint} was cancelled`, endpoint);
+        this.name = "DaemonCancelledError";
+    }
+}
+
+/**
+ * Whether a failure is transient and worth retrying (network, timeout or 5xx).
+ */
+export function isTransientDaemonError(error: any): boolean {
+    if (error instanceof DaemonNetworkError || error instanceof DaemonTimeoutError) {
+        return true;
+    }
+    return error instanceof DaemonHttpError && error.status >= 500;
+}
@@ -1,3 +1,22 @@
+import Event, {PublicApi} from "SpectaclesInteractionKit.lspkg/Utils/Event"
+import {CancellationToken, DEFAULT_GET_RETRY_POLICY, RequestOptions} from "./DaemonRequest"
+import {ConnectionMonitor, ConnectionStatus} from "./ConnectionMonitor"
+import {DaemonStatus, parseDaemonStatus} from "./DaemonStatus"
+import {DirectionOfArrival, parseDirectionOfArrival} from "./DirectionOfArrival"
+import {
+    DaemonCancelledError,
+    DaemonHttpError,
+    DaemonNetworkError,
+    DaemonResponseError,
+    DaemonTimeoutError,
+    isTransientDaemonError
+} from "./DaemonErrors"
+import {clampCommand, KinematicLimits, LimitViolation, REACHY_MINI_LIMITS} from "./KinematicLimits"
+import {MotorMode, parseMotorMode, parseRobotStateSnapshot, RobotStateSnapshot} from "./RobotStateSnapshot"
+import {RobotRegistry} from "./RobotRegistry"
+import {SimulatedDaemon, SimulatedResponse} from "./SimulatedDaemon"
+import {StreamStats, StreamTarget, TargetStreamer} from "./TargetStreamer"
+
 /**
  * Represents a 3D pose using position (x, y, z) in meters and orientation (roll, pitch, yaw) angles in radians.
  */
@@ -17,9 +36,33 @@ export interface MoveUUID {
     uuid: string;
 }
 
+/**
+ * A command about to be sent to the robot (see onCommandSent), after clamping to the kinematic limits.
+ */
+export interface SentCommand {
+    source: string; // "goto", "set_target" or "recorded_move"
+    headPose: XYZRPYPose | null; // null for recorded moves, whose poses only the daemon knows
+    bodyYaw: number | null;
+    antennas: [number, number] | null;
+    duration: number; // Seconds to reach the pose, 0 for immediate targets
+    moveName: string | null; // Recorded move (or animation) name
+}
+
+/**
+ * A polling subscription to a daemon value (see subscribeRobotState, subscribeDirectionOfArrival).
+ */
+interface PollingSubscription {
+    interval: number; // Seconds between polls
+    poll: (timeout: number) => Promise<void>; // Fetches and delivers one value
+    nextPollTime: number;
+    inFlight: boolean;
+}
+
 @component
 export class DaemonInterface extends BaseScriptComponent {
-    private static _instance: DaemonInterface | null = null;
+    @input
+    @hint("Id this robot is registered under in the RobotRegistry (unique per robot)")
+    private robotId: string = "reachy";
 
     @input
     @hint("Base URL for the Reachy Mini daemon (e.g., http://192.168.1.108:8000)")
@@ -29,101 +72,442 @@ export class DaemonInterface extends BaseScriptComponent {
     @hint("InternetModule asset for making HTTP requests")
     private internetModule!: InternetModule;
 
+    @input
+    @hint("Twin-only mode: answer every request from a simulated robot instead of the daemon")
+    private simulate: boolean = false;
+
+    @input
+    @hint("Default timeout in seconds for daemon requests (0 disables the timeout)")
+    private defaultTimeout: number = 5.0;
+
+    @input
+    @hint("Rate in Hz at which streamed targets (streamTarget) are sent to the daemon")
+    private streamRateHz: number = 50;
+
+    @input
+    @hint("Stream targets over a WebSocket to the daemon, falling back to HTTP when it is unavailable. Spectacles only opens wss:// sockets, so this needs the daemon served over https")
+    private useWebSocketStreaming: boolean = true;
+
+    @input
+    @hint("Seconds between /api/health checks while connected")
+    private heartbeatInterval: number = 2.0;
+
+    @input
+    @hint("Health checks slower than this many seconds mark the connection as degraded")
+    private slowResponseThreshold: number = 0.5;
+
+    @input
+    @hint("Maximum delay in seconds between reconnect attempts while disconnected")
+    private maxReconnectBackoff: number = 30.0;
+
+    private hasWarnedInsecureSocket: boolean = false; // Logged once per base URL
+    private targetStreamer: TargetStreamer | null = null;
+    private connectionMonitor: ConnectionMonitor | null = null;
+    private subscriptions: PollingSubscription[] = [];
+    private kinematicLimits: KinematicLimits = REACHY_MINI_LIMITS;
+    private lastViolationLogTime: number = -Infinity;
+    private lastRobotState: RobotStateSnapshot | null = null;
+    private simulator: SimulatedDaemon | null = null;
+
+    // Event for when the connection status changes
+    private _onConnectionChangedEvent: Event<ConnectionStatus> = new Event<ConnectionStatus>();
+    readonly onConnectionChanged: PublicApi<ConnectionStatus> = this._onConnectionChangedEvent.publicApi();
+
+    // Event for each outgoing command that had to be clamped to the kinematic limits
+    private _onLimitViolationEvent: Event<LimitViolation[]> = new Event<LimitViolation[]>();
+    readonly onLimitViolation: PublicApi<LimitViolation[]> = this._onLimitViolationEvent.publicApi();
+
+    // Event for each target queued with streamTarget, after clamping (e.g. to record sessions)
+    private _onTargetStreamedEvent: Event<StreamTarget> = new Event<StreamTarget>();
+    readonly onTargetStreamed: PublicApi<StreamTarget> = this._onTargetStreamedEvent.publicApi();
+
+    // Event for each goto, set_target or recorded move, just before it is sent (e.g. to preview it)
+    private _onCommandSentEvent: Event<SentCommand> = new Event<SentCommand>();
+    readonly onCommandSent: PublicApi<SentCommand> = this._onCommandSentEvent.publicApi();
+
     onAwake() {
-        // Set this instance as the singleton
-        DaemonInterface._instance = this;
+        if (this.simulate) {
+            print(`DaemonInterface: Twin-only mode, ${this.robotId} is simulated`);
+            this.simulator = new SimulatedDaemon();
+        }
+
+        this.targetStreamer = new TargetStreamer({
+            createSocket: () => this.createStreamSocket(),
+            // Short timeout: a target older than this is stale anyway
+            postTarget: (target: StreamTarget) => this.postTarget(target.headPose, target.bodyYaw, target.antennas, {timeout: 1.0}),
+            // HTTP round trip reported while streaming over the WebSocket, which doesn't answer accepted targets
+            ping: async () => {
+                await this.fetchRequest("/api/health", "GET", undefined, {timeout: 1.0});
+            }
+        }, this.streamRateHz, this.useWebSocketStreaming);
+
+        this.connectionMonitor = new ConnectionMonitor(
+            () => this.checkConnection({timeout: this.heartbeatInterval}),
+            (status: ConnectionStatus, previous: ConnectionStatus) => {
+                print(`DaemonInterface: Connection ${previous} -> ${status} (${this.robotId} at ${this.baseUrl})`);
+                if (status === ConnectionStatus.Disconnected) {
+                    this.targetStreamer.clear();
+                }
+                this._onConnectionChangedEvent.invoke(status);
+            },
+            {
+                heartbeatInterval: this.heartbeatInterval,
+                slowResponseThreshold: this.slowResponseThreshold,
+                failuresBeforeDisconnect: 3,
+                initialBackoff: 1.0,
+                maxBackoff: this.maxReconnectBackoff
+            }
+        );
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.connectionMonitor.tick();
+            if (this.connectionMonitor.getStatus() !== ConnectionStatus.Disconnected) {
+                this.targetStreamer.tick();
+                this.pollSubscriptions();
+            }
+        });
+        this.createEvent("OnDestroyEvent").bind(() => {
+            this.targetStreamer.close();
+            RobotRegistry.unregister(this);
+        });
+
+        RobotRegistry.register(this);
     }
 
     /**
-     * Get the singleton instance of DaemonInterface
+     * Get the id this robot is registered under in the RobotRegistry
      */
-    public static getInstance(): DaemonInterface | null {
-        return DaemonInterface._instance;
+    public getRobotId(): string {
+        return this.robotId;
     }
 
     /**
-     * Internal HTTP fetch method
+     * Get the base URL of this robot's daemon
      */
-    private async fetchRequest(endpoint: string, method: string = "GET", body?: any): Promise<Response | null> {
-        try {
-            const url = `${this.baseUrl}${endpoint}`;
-            const requestOptions: any = {
-                method: method,
-                headers: {
-                    "Content-Type": "application/json"
+    public getBaseUrl(): string {
+        return this.baseUrl;
+    }
+
+    /**
+     * Check whether requests are answered by the simulated robot (twin-only mode)
+     */
+    public isSimulated(): boolean {
+        return this.simulator !== null;
+    }
+
+    /**
+     * Point this connection at another daemon (e.g. one found by DaemonDiscovery).
+     * The stream socket is reopened and the health check runs right away on the new address.
+     */
+    public setBaseUrl(baseUrl: string): void {
+        const normalized = baseUrl.trim().replace(/\/+$/, "");
+        if (normalized.length === 0 || normalized === this.baseUrl) {
+            return;
+        }
+        print(`DaemonInterface: Base URL ${this.baseUrl} -> ${normalized}`);
+        this.baseUrl = normalized;
+        this.lastRobotState = null;
+        this.hasWarnedInsecureSocket = false;
+        if (this.targetStreamer) {
+            this.targetStreamer.close();
+        }
+        if (this.connectionMonitor) {
+            this.connectionMonitor.checkNow();
+        }
+    }
+
+    /**
+     * Internal HTTP fetch method.
+     * Resolves with the response on a 2xx status, otherwise rejects with a DaemonError subclass.
+     * GET requests are retried on transient failures when options.retry is set.
+     */
+    private async fetchRequest(endpoint: string, method: string = "GET", body?: any, options: RequestOptions = {}): Promise<Response> {
+        const retry = method === "GET" && options.retry ? options.retry : null;
+        const maxAttempts = retry ? Math.max(1, retry.maxAttempts) : 1;
+        let delay = retry ? retry.initialDelay : 0;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.fetchOnce(endpoint, method, body, options);
+            } catch (error) {
+                if (attempt >= maxAttempts || !isTransientDaemonError(error)) {
+                    throw error;
                 }
+                print(`DaemonInterface: ${error.name} on ${endpoint}, retrying (${attempt}/${maxAttempts - 1}) in ${delay}s`);
+                await this.waitFor(delay, endpoint, options.cancellationToken);
+                delay *= retry.backoffMultiplier;
+            }
+        }
+    }
+
+    /**
+     * Single HTTP attempt with timeout and cancellation
+     */
+    private fetchOnce(endpoint: string, method: string, body: any, options: RequestOptions): Promise<Response> {
+        const token = options.cancellationToken;
+        if (token && token.isCancelled) {
+            return Promise.reject(new DaemonCancelledError(endpoint));
+        }
+
+        const url = `${this.baseUrl}${endpoint}`;
+        const requestOptions: any = {
+            method: method,
+            headers: {
+                "Content-Type": "application/json"
+            }
+        };
+
+        if (body) {
+            requestOptions.body = JSON.stringify(body);
+        }
+
+        const timeout = options.timeout ?? this.defaultTimeout;
+
+        return new Promise<Response>((resolve, reject) => {
+            let settled = false;
+            let cancelTimer: () => void = () => {};
+            let removeCancelListener: () => void = () => {};
+
+            const settle = (action: () => void) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                cancelTimer();
+                removeCancelListener();
+                action();
             };
 
-            if (body) {
-                requestOptions.body = JSON.stringify(body);
+            if (timeout > 0) {
+                cancelTimer = this.startTimer(timeout, () => {
+                    settle(() => reject(new DaemonTimeoutError(endpoint, timeout)));
+                });
+            }
+            if (token) {
+                removeCancelListener = token.onCancelled(() => {
+                    settle(() => reject(new DaemonCancelledError(endpoint)));
+                });
             }
 
-            const request = new Request(url, requestOptions);
-            const response = await this.internetModule.fetch(request);
-            
-            // Log request details for debugging
-            if (!response || response.status !== 200) {
-                const status = response ? response.status : "no response";
-                const bodyStr = body ? JSON.stringify(body) : "none";
-                print(`DaemonInterface: Request to ${endpoint} returned ${status}. Method: ${method}, Body: ${bodyStr}`);
+            const request = this.simulator
+                ? Promise.resolve(this.createSimulatedResponse(this.simulator.handle(endpoint, method, body, getTime())))
+                : this.internetModule.fetch(new Request(url, requestOptions));
+            request.then(async (response: Response) => {
+                if (settled) {
+                    return; // Timed out or cancelled, drop the late response
+                }
+                if (!response) {
+                    settle(() => reject(new DaemonNetworkError(endpoint, "no response")));
+                    return;
+                }
+                if (response.status < 200 || response.status >= 300) {
+                    const detail = await this.readErrorDetail(response);
+                    const bodyStr = body ? JSON.stringify(body) : "none";
+                    print(`DaemonInterface: Request to ${endpoint} returned ${response.status}. Method: ${method}, Body: ${bodyStr}`);
+                    settle(() => reject(new DaemonHttpError(endpoint, response.status, detail)));
+                    return;
+                }
+                settle(() => resolve(response));
+            }).catch((error: any) => {
+                settle(() => reject(new DaemonNetworkError(endpoint, error)));
+            });
+        }).catch((error: any) => {
+            if (error instanceof DaemonNetworkError || error instanceof DaemonTimeoutError) {
+                print(`DaemonInterface: ${error.message}`);
+                if (this.connectionMonitor) {
+                    this.connectionMonitor.reportFailure();
+                }
             }
-            
-            return response;
+            throw error;
+        });
+    }
+
+    /**
+     * Wrap a simulated daemon reply in the parts of Response the request code reads
+     */
+    private createSimulatedResponse(reply: SimulatedResponse): Response {
+        const text = JSON.stringify(reply.data);
+        return {
+            status: reply.status,
+            json: async () => JSON.parse(text),
+            text: async () => text
+        } as any as Response;
+    }
+
+    /**
+     * Fetch and parse a JSON body, rejecting with DaemonResponseError if it is not valid JSON
+     */
+    private async fetchJson<T>(endpoint: string, method: string = "GET", body?: any, options: RequestOptions = {}): Promise<T> {
+        const response = await this.fetchRequest(endpoint, method, body, options);
+        try {
+            return await response.json() as T;
+        } catch (error) {
+            throw new DaemonResponseError(endpoint, `invalid JSON (${error})`);
+        }
+    }
+
+    /**
+     * Fetch a move-starting endpoint and return the UUID of the started move
+     */
+    private async fetchMoveUuid(endpoint: string, method: string, body?: any, options: RequestOptions = {}): Promise<string> {
+        const data = await this.fetchJson<MoveUUID>(endpoint, method, body, options);
+        if (!data || typeof data.uuid !== "string") {
+            throw new DaemonResponseError(endpoint, `expected a move UUID, got ${JSON.stringify(data)}`);
+        }
+        return data.uuid;
+    }
+
+    /**
+     * Extract the daemon's error detail from a failed response, if it sent one
+     */
+    private async readErrorDetail(response: Response): Promise<string | null> {
+        try {
+            const text = await response.text();
+            if (!text) {
+                return null;
+            }
+            try {
+                const data = JSON.parse(text);
+                if (data && data.detail !== undefined) {
+                    return typeof data.detail === "string" ? data.detail : JSON.stringify(data.detail);
+                }
+            } catch (parseError) {
+                // Not JSON, fall back to the raw body
+            }
+            return text;
         } catch (error) {
-            print(`DaemonInterface: Error making request to ${endpoint}: ${error}`);
             return null;
         }
     }
 
+    /**
+     * Call back after the given delay in seconds
+     * @returns Function cancelling the callback
+     */
+    private startTimer(seconds: number, callback: () => void): () => void {
+        const timerEvent = this.createEvent("DelayedCallbackEvent");
+        timerEvent.bind(() => {
+            this.removeEvent(timerEvent);
+            callback();
+        });
+        timerEvent.reset(seconds);
+        return () => this.removeEvent(timerEvent);
+    }
+
+    /**
+     * Wait for the given delay, rejecting early if the token is cancelled
+     */
+    private waitFor(seconds: number, endpoint: string, token?: CancellationToken): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            let removeCancelListener: () => void = () => {};
+            const cancelTimer = this.startTimer(seconds, () => {
+                removeCancelListener();
+                resolve();
+            });
+            if (token) {
+                removeCancelListener = token.onCancelled(() => {
+                    cancelTimer();
+                    reject(new DaemonCancelledError(endpoint));
+                });
+            }
+        });
+    }
+
     /**
      * Move a joint to a specific position
      * @param jointName Name of the joint to move
      * @param position Target position (angle in degrees or position value)
      */
-    public async moveJoint(jointName: string, position: number): Promise<void> {
-        const response = await this.fetchRequest(`/api/arm/${jointName}/move`, "POST", { position });
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            throw new Error(`Failed to move joint ${jointName}: HTTP ${status}`);
-        }
+    public async moveJoint(jointName: string, position: number, options?: RequestOptions): Promise<void> {
+        await this.fetchRequest(`/api/arm/${jointName}/move`, "POST", { position }, options);
     }
 
     /**
      * Play an audio file on the robot
      * @param audioFile Path or name of the audio file to play
      */
-    public async playAudio(audioFile: string): Promise<void> {
-        const response = await this.fetchRequest("/api/audio/play", "POST", { file: audioFile });
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            throw new Error(`Failed to play audio ${audioFile}: HTTP ${status}`);
+    public async playAudio(audioFile: string, options?: RequestOptions): Promise<void> {
+        await this.fetchRequest("/api/audio/play", "POST", { file: audioFile }, options);
+    }
+
+    /**
+     * List the audio clips available on the daemon
+     * @returns Clip names accepted by playAudio
+     */
+    public async listAudioClips(options?: RequestOptions): Promise<string[]> {
+        const endpoint = "/api/audio/list";
+        const data = await this.fetchJson<any>(endpoint, "GET", undefined, this.withGetRetry(options));
+        const clips = Array.isArray(data) ? data : data && data.files;
+        if (!Array.isArray(clips)) {
+            throw new DaemonResponseError(endpoint, `expected a list of clips, got ${JSON.stringify(data)}`);
         }
+        return clips.filter((clip: any) => typeof clip === "string");
+    }
+
+    /**
+     * Get the robot's speaker volume
+     * @returns Volume from 0 to 100
+     */
+    public async getVolume(options?: RequestOptions): Promise<number> {
+        const endpoint = "/api/volume/current";
+        const data = await this.fetchJson<any>(endpoint, "GET", undefined, this.withGetRetry(options));
+        if (!data || typeof data.volume !== "number") {
+            throw new DaemonResponseError(endpoint, `expected {volume}, got ${JSON.stringify(data)}`);
+        }
+        return data.volume;
+    }
+
+    /**
+     * Set the robot's speaker volume
+     * @param volume Volume from 0 to 100
+     */
+    public async setVolume(volume: number, options?: RequestOptions): Promise<void> {
+        const clamped = Math.round(Math.max(0, Math.min(100, volume)));
+        await this.fetchRequest("/api/volume/set", "POST", { volume: clamped }, options);
+    }
+
+    /**
+     * Get the current connection status tracked by the background heartbeat
+     */
+    public getConnectionStatus(): ConnectionStatus {
+        return this.connectionMonitor ? this.connectionMonitor.getStatus() : ConnectionStatus.Disconnected;
+    }
+
+    /**
+     * Check if the daemon is connected (Connected or Degraded)
+     */
+    public isConnected(): boolean {
+        return this.getConnectionStatus() !== ConnectionStatus.Disconnected;
     }
 
     /**
      * Check if the daemon is available and responding
      * @returns true if connection is successful, false otherwise
      */
-    public async checkConnection(): Promise<boolean> {
-        const response = await this.fetchRequest("/api/health", "GET");
-        return response !== null && response.status === 200;
+    public async checkConnection(options?: RequestOptions): Promise<boolean> {
+        try {
+            await this.fetchRequest("/api/health", "GET", undefined, options);
+            return true;
+        } catch (error) {
+            return false;
+        }
     }
 
     /**
      * List available recorded moves in a dataset
      * @param datasetName Name of the dataset to query (may contain slashes, will be URL-encoded)
+     * @param options Request options, retried with DEFAULT_GET_RETRY_POLICY unless a retry policy is given
      * @returns Array of move names available in the dataset
      */
-    public async listRecordedMoves(datasetName: string): Promise<string[]> {
+    public async listRecordedMoves(datasetName: string, options?: RequestOptions): Promise<string[]> {
         // URL-encode the dataset name to handle slashes and special characters
         const encodedDatasetName = encodeURIComponent(datasetName);
-        const response = await this.fetchRequest(`/api/move/recorded-move-datasets/list/${encodedDatasetName}`, "GET");
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            throw new Error(`Failed to list recorded moves for dataset ${datasetName}: HTTP ${status}`);
+        const endpoint = `/api/move/recorded-move-datasets/list/${encodedDatasetName}`;
+        const data = await this.fetchJson<string[]>(endpoint, "GET", undefined, this.withGetRetry(options));
+        if (!Array.isArray(data)) {
+            throw new DaemonResponseError(endpoint, `expected a list of move names, got ${JSON.stringify(data)}`);
         }
-        const data = await response.json();
-        return data as string[];
+        return data;
     }
 
     /**
@@ -132,45 +516,94 @@ export class DaemonInterface extends BaseScriptComponent {
      * @param moveName Name of the move to play (will be URL-encoded)
      * @returns MoveUUID to track/stop the move
      */
-    public async playRecordedMove(datasetName: string, moveName: string): Promise<string> {
+    public async playRecordedMove(datasetName: string, moveName: string, options?: RequestOptions): Promise<string> {
         // URL-encode both dataset name and move name (e.g., '/' becomes '%2F')
         const encodedDatasetName = encodeURIComponent(datasetName);
         const encodedMoveName = encodeURIComponent(moveName);
         const endpoint = `/api/move/play/recorded-move-dataset/${encodedDatasetName}/${encodedMoveName}`;
-        const response = await this.fetchRequest(endpoint, "POST");
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            const url = `${this.baseUrl}${endpoint}`;
-            throw new Error(`Failed to play recorded move ${moveName} from dataset ${datasetName}: HTTP ${status} (URL: ${url})`);
-        }
-        const data = await response.json() as MoveUUID;
-        return data.uuid;
+        this.notifyRecordedMove(moveName);
+        return this.fetchMoveUuid(endpoint, "POST", undefined, options);
     }
 
     /**
      * Stop a running move task
      * @param moveUuid UUID of the move to stop
      */
-    public async stopMove(moveUuid: string): Promise<void> {
-        const response = await this.fetchRequest("/api/move/stop", "POST", { uuid: moveUuid });
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            throw new Error(`Failed to stop move ${moveUuid}: HTTP ${status}`);
-        }
+    public async stopMove(moveUuid: string, options?: RequestOptions): Promise<void> {
+        await this.fetchRequest("/api/move/stop", "POST", { uuid: moveUuid }, options);
     }
 
     /**
      * Get list of currently running move tasks
+     * @param options Request options, retried with DEFAULT_GET_RETRY_POLICY unless a retry policy is given
      * @returns Array of MoveUUID for running moves
      */
-    public async getRunningMoves(): Promise<MoveUUID[]> {
-        const response = await this.fetchRequest("/api/move/running", "GET");
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            throw new Error(`Failed to get running moves: HTTP ${status}`);
+    public async getRunningMoves(options?: RequestOptions): Promise<MoveUUID[]> {
+        const endpoint = "/api/move/running";
+        const data = await this.fetchJson<MoveUUID[]>(endpoint, "GET", undefined, this.withGetRetry(options));
+        if (!Array.isArray(data)) {
+            throw new DaemonResponseError(endpoint, `expected a list of moves, got ${JSON.stringify(data)}`);
         }
-        const data = await response.json();
-        return data as MoveUUID[];
+        return data;
+    }
+
+    /**
+     * Stop every running move task
+     * @returns Number of moves that were stopped
+     */
+    public async stopAllMoves(options?: RequestOptions): Promise<number> {
+        const runningMoves = await this.getRunningMoves(options);
+        await Promise.all(runningMoves.map((move) => this.stopMove(move.uuid, options)));
+        return runningMoves.length;
+    }
+
+    /**
+     * Get the daemon's lifecycle status (backend state, robot name, version)
+     */
+    public async getDaemonStatus(options?: RequestOptions): Promise<DaemonStatus> {
+        const endpoint = "/api/daemon/status";
+        const data = await this.fetchJson<any>(endpoint, "GET", undefined, this.withGetRetry(options));
+        return parseDaemonStatus(data, endpoint);
+    }
+
+    /**
+     * Play the daemon's wake-up animation
+     * @returns MoveUUID to track/stop the move
+     */
+    public async wakeUp(options?: RequestOptions): Promise<string> {
+        this.notifyRecordedMove("wake_up");
+        return this.fetchMoveUuid("/api/move/play/wake_up", "POST", undefined, options);
+    }
+
+    /**
+     * Play the daemon's go-to-sleep animation
+     * @returns MoveUUID to track/stop the move
+     */
+    public async gotoSleep(options?: RequestOptions): Promise<string> {
+        this.notifyRecordedMove("goto_sleep");
+        return this.fetchMoveUuid("/api/move/play/goto_sleep", "POST", undefined, options);
+    }
+
+    /**
+     * Get the current motor control mode
+     * @returns Enabled, Disabled or GravityCompensation
+     */
+    public async getMotorMode(options?: RequestOptions): Promise<MotorMode> {
+        const endpoint = "/api/motors/status";
+        const data = await this.fetchJson<any>(endpoint, "GET", undefined, this.withGetRetry(options));
+        const mode = parseMotorMode(data ? data.mode : undefined);
+        if (mode === null) {
+            throw new DaemonResponseError(endpoint, `unknown motor mode ${JSON.stringify(data)}`);
+        }
+        return mode;
+    }
+
+    /**
+     * Set the motor control mode
+     * @param mode Enabled (torque on), Disabled (torque off) or GravityCompensation (compliant)
+     */
+    public async setMotorMode(mode: MotorMode, options?: RequestOptions): Promise<void> {
+        await this.fetchRequest(`/api/motors/set_mode/${mode}`, "POST", undefined, options);
     }
 
     /**
@@ -179,25 +612,29 @@ export class DaemonInterface extends BaseScriptComponent {
      * @param bodyYaw Optional target body yaw in radians
      * @param duration Duration of the movement in seconds (default: 0.5)
      * @param interpolation Interpolation mode: "linear", "minjerk", "ease", or "cartoon" (default: "minjerk")
+     * @param antennas Target antenna positions [right, left] in radians (default: [0, 0])
      * @returns MoveUUID to track/stop the move
      */
-    public async goto(headPose: XYZRPYPose, bodyYaw?: number, duration: number = 0.5, interpolation: string = "minjerk"): Promise<string> {
+    public async goto(headPose: XYZRPYPose, bodyYaw?: number, duration: number = 0.5, interpolation: string = "minjerk", antennas: [number, number] = [0, 0], options?: RequestOptions): Promise<string> {
+        const command = this.validateCommand("goto", headPose, bodyYaw, antennas);
         const body: any = {
-            head_pose: headPose,
+            head_pose: command.headPose,
             duration: duration,
             interpolation: interpolation,
-            antennas: [0, 0]
+            antennas: command.antennas
         };
-        if (bodyYaw !== undefined) {
-            body.body_yaw = bodyYaw;
-        }
-        const response = await this.fetchRequest("/api/move/goto", "POST", body);
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            throw new Error(`Failed to execute goto movement: HTTP ${status}`);
+        if (command.bodyYaw !== undefined) {
+            body.body_yaw = command.bodyYaw;
         }
-        const data = await response.json() as MoveUUID;
-        return data.uuid;
+        this._onCommandSentEvent.invoke({
+            source: "goto",
+            headPose: command.headPose,
+            bodyYaw: command.bodyYaw ?? null,
+            antennas: command.antennas,
+            duration: duration,
+            moveName: null
+        });
+        return this.fetchMoveUuid("/api/move/goto", "POST", body, options);
     }
 
     /**
@@ -207,18 +644,253 @@ export class DaemonInterface extends BaseScriptComponent {
      * @param bodyYaw Optional target body yaw in radians
      * @param antennas Optional antenna positions [left, right] in radians
      */
-    public async setTarget(headPose: XYZRPYPose, bodyYaw?: number, antennas?: [number, number]): Promise<void> {
+    public async setTarget(headPose: XYZRPYPose, bodyYaw?: number, antennas?: [number, number], options?: RequestOptions): Promise<void> {
+        const command = this.validateCommand("set_target", headPose, bodyYaw, antennas ?? [0, 0]);
+        this._onCommandSentEvent.invoke({
+            source: "set_target",
+            headPose: command.headPose,
+            bodyYaw: command.bodyYaw ?? null,
+            antennas: command.antennas,
+            duration: 0,
+            moveName: null
+        });
+        await this.postTarget(command.headPose, command.bodyYaw, command.antennas, options);
+    }
+
+    /**
+     * Send an already clamped target to /api/move/set_target (streamed targets are reported by onTargetStreamed)
+     */
+    private async postTarget(headPose: XYZRPYPose, bodyYaw: number | undefined, antennas: [number, number], options?: RequestOptions): Promise<void> {
         const body: any = {
             target_head_pose: headPose,
-            target_antennas: antennas ?? [0, 0]
+            target_antennas: antennas
         };
         if (bodyYaw !== undefined) {
             body.target_body_yaw = bodyYaw;
         }
-        const response = await this.fetchRequest("/api/move/set_target", "POST", body);
-        if (!response || response.status !== 200) {
-            const status = response ? response.status : "no response";
-            throw new Error(`Failed to set_target: HTTP ${status}`);
+        await this.fetchRequest("/api/move/set_target", "POST", body, options);
+    }
+
+    /**
+     * Report a recorded move or animation about to start; its poses are only known to the daemon
+     */
+    private notifyRecordedMove(moveName: string): void {
+        this._onCommandSentEvent.invoke({
+            source: "recorded_move",
+            headPose: null,
+            bodyYaw: null,
+            antennas: null,
+            duration: 0,
+            moveName: moveName
+        });
+    }
+
+    /**
+     * Get the kinematic limits every outgoing pose is clamped to
+     */
+    public getKinematicLimits(): KinematicLimits {
+        return this.kinematicLimits;
+    }
+
+    /**
+     * Replace the kinematic limits applied to every outgoing pose, e.g. to keep a robot within a tighter range
+     */
+    public setKinematicLimits(limits: KinematicLimits): void {
+        this.kinematicLimits = limits;
+    }
+
+    /**
+     * Clamp an outgoing command to the kinematic limits and report any violation
+     */
+    private validateCommand(source: string, headPose: XYZRPYPose, bodyYaw: number | undefined, antennas: [number, number]): {headPose: XYZRPYPose; bodyYaw?: number; antennas: [number, number]} {
+        const command = clampCommand(this.kinematicLimits, headPose, bodyYaw, antennas);
+        if (command.violations.length > 0) {
+            this._onLimitViolationEvent.invoke(command.violations);
+            // Throttled: streamed targets can violate limits every frame
+            if (getTime() - this.lastViolationLogTime > 5.0) {
+                this.lastViolationLogTime = getTime();
+                const details = command.violations.map((v) => `${v.field}=${v.value.toFixed(3)}->${v.clampedTo.toFixed(3)}`).join(", ");
+                print(`DaemonInterface: Clamped ${source} to the kinematic limits: ${details}`);
+            }
+        }
+        return {headPose: command.headPose, bodyYaw: command.bodyYaw, antennas: command.antennas};
+    }
+
+    /**
+     * Use the default GET retry policy unless the caller chose one
+     */
+    private withGetRetry(options?: RequestOptions): RequestOptions {
+        return {retry: DEFAULT_GET_RETRY_POLICY, ...options};
+    }
+
+    /**
+     * Queue a target for real-time streaming (see TargetStreamer).
+     * Only the latest target is kept; it is sent at streamRateHz with at most one command in flight.
+     * @param headPose Target head pose (x, y, z in meters, roll, pitch, yaw in radians)
+     * @param bodyYaw Optional target body yaw in radians
+     * @param antennas Optional antenna positions [left, right] in radians
+     */
+    public streamTarget(headPose: XYZRPYPose, bodyYaw?: number, antennas?: [number, number]): void {
+        const command = this.validateCommand("stream_target", headPose, bodyYaw, antennas ?? [0, 0]);
+        const target: StreamTarget = {
+            headPose: command.headPose,
+            bodyYaw: command.bodyYaw,
+            antennas: command.antennas
+        };
+        this.targetStreamer.submit(target);
+        this._onTargetStreamedEvent.invoke(target);
+    }
+
+    /**
+     * Drop any streamed target that has not been sent yet
+     */
+    public clearStreamedTarget(): void {
+        this.targetStreamer.clear();
+    }
+
+    /**
+     * Get streaming counters (transport, sent/dropped/failed frames, round-trip latency)
+     */
+    public getStreamStats(): StreamStats {
+        return this.targetStreamer.getStats();
+    }
+
+    /**
+     * Open the WebSocket used for streaming targets (wss://<host>/api/move/ws/set_target).
+     * Spectacles only opens secure sockets, so a daemon served over plain http streams over HTTP.
+     */
+    private createStreamSocket(): WebSocket | null {
+        if (!this.internetModule || this.simulator) {
+            return null;
+        }
+        if (!this.baseUrl.startsWith("https://")) {
+            if (!this.hasWarnedInsecureSocket) {
+                this.hasWarnedInsecureSocket = true;
+                print(`DaemonInterface: ${this.baseUrl} is not https, streaming over HTTP (WebSockets need wss://)`);
+            }
+            return null;
+        }
+        const wsBaseUrl = this.baseUrl.replace(/^https/, "wss");
+        return this.internetModule.createWebSocket(`${wsBaseUrl}/api/move/ws/set_target`);
+    }
+
+    /**
+     * Read the robot's current state once from /api/state/full
+     * @returns Head pose, body yaw, antennas, motor mode and control-loop status
+     */
+    public async getRobotState(options?: RequestOptions): Promise<RobotStateSnapshot> {
+        const endpoint = "/api/state/full";
+        const query = "?with_head_pose=true&with_body_yaw=true&with_antenna_positions=true&with_control_mode=true";
+        const data = await this.fetchJson<any>(`${endpoint}${query}`, "GET", undefined, options);
+        this.lastRobotState = parseRobotStateSnapshot(data, endpoint);
+        return this.lastRobotState;
+    }
+
+    /**
+     * Get the latest state read with getRobotState or a state subscription, or null before the first read
+     */
+    public getLastRobotState(): RobotStateSnapshot | null {
+        return this.lastRobotState;
+    }
+
+    /**
+     * Poll the robot state at the given rate while the daemon is connected
+     * @param rateHz Polling rate in Hz (at most one request in flight per subscription)
+     * @param callback Called with each new snapshot
+     * @returns Function ending the subscription
+     */
+    public subscribeRobotState(rateHz: number, callback: (snapshot: RobotStateSnapshot) => void): () => void {
+        return this.addSubscription(rateHz, (timeout: number) => this.getRobotState({timeout: timeout}), callback);
+    }
+
+    /**
+     * Fetch a JPEG snapshot from the robot's camera and decode it into a texture.
+     * Polling this is the first step towards a camera feed; a streaming endpoint can replace it later.
+     */
+    public async getCameraSnapshot(options?: RequestOptions): Promise<Texture> {
+        const endpoint = "/api/camera/snapshot";
+        const response = await this.fetchRequest(endpoint, "GET", undefined, options);
+        let bytes: Uint8Array;
+        try {
+            bytes = await response.bytes();
+        } catch (error) {
+            throw new DaemonResponseError(endpoint, `could not read image (${error})`);
+        }
+        if (!bytes || bytes.length === 0) {
+            throw new DaemonResponseError(endpoint, "empty image");
+        }
+        return new Promise<Texture>((resolve, reject) => {
+            Base64.decodeTextureAsync(
+                Base64.encode(bytes),
+                (texture: Texture) => resolve(texture),
+                () => reject(new DaemonResponseError(endpoint, "could not decode JPEG"))
+            );
+        });
+    }
+
+    /**
+     * Get the direction of the loudest sound source heard by the microphone array
+     */
+    public async getDirectionOfArrival(options?: RequestOptions): Promise<DirectionOfArrival> {
+        const endpoint = "/api/audio/doa";
+        const data = await this.fetchJson<any>(endpoint, "GET", undefined, options);
+        return parseDirectionOfArrival(data, endpoint);
+    }
+
+    /**
+     * Poll the direction of arrival at the given rate while the daemon is connected
+     * @param rateHz Polling rate in Hz (at most one request in flight per subscription)
+     * @param callback Called with each new direction
+     * @returns Function ending the subscription
+     */
+    public subscribeDirectionOfArrival(rateHz: number, callback: (direction: DirectionOfArrival) => void): () => void {
+        return this.addSubscription(rateHz, (timeout: number) => this.getDirectionOfArrival({timeout: timeout}), callback);
+    }
+
+    /**
+     * Register a polled value delivered to the callback while the subscription is active
+     * @returns Function ending the subscription
+     */
+    private addSubscription<T>(rateHz: number, fetch: (timeout: number) => Promise<T>, callback: (value: T) => void): () => void {
+        const subscription: PollingSubscription = {
+            interval: 1 / Math.max(0.1, rateHz),
+            poll: async (timeout: number) => {
+                const value = await fetch(timeout);
+                if (this.subscriptions.indexOf(subscription) >= 0) {
+                    callback(value);
+                }
+            },
+            nextPollTime: 0,
+            inFlight: false
+        };
+        this.subscriptions.push(subscription);
+        return () => {
+            const index = this.subscriptions.indexOf(subscription);
+            if (index >= 0) {
+                this.subscriptions.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Start a poll for every subscription that is due
+     */
+    private pollSubscriptions(): void {
+        const now = getTime();
+        for (const subscription of this.subscriptions) {
+            if (subscription.inFlight || now < subscription.nextPollTime) {
+                continue;
+            }
+            subscription.inFlight = true;
+            subscription.nextPollTime = now + subscription.interval;
+            subscription.poll(Math.max(subscription.interval, 0.5)).catch((error) => {
+                // Connection problems are reported by the heartbeat, only surface parsing issues here
+                if (error instanceof DaemonResponseError) {
+                    print(`DaemonInterface: ${error.message}`);
+                }
+            }).finally(() => {
+                subscription.inFlight = false;
+            });
         }
     }
 }
@@ -0,0 +1,152 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {DaemonDiscovery, DiscoveredDaemon} from "./DaemonDiscovery"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility, setText} from "./UIPanel"
+
+/**
+ * AR picker for the daemons found by DaemonDiscovery: scan the network, then tap a daemon to
+ * connect to it. The choice is saved and reused in the next sessions.
+ */
+@component
+export class DaemonPickerPanel extends BaseScriptComponent {
+    @input
+    @hint("DaemonDiscovery component scanning for daemons")
+    private discovery!: DaemonDiscovery;
+
+    @input
+    @hint("UIFrameAnimator of the panel's frame, used to show/hide the picker")
+    private frameAnimator!: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the picker panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Button starting a network scan")
+    private scanButton!: RectangleButton;
+
+    @input
+    @hint("One button per listed daemon; the number of buttons limits the list")
+    private daemonButtons: RectangleButton[] = [];
+
+    @input
+    @hint("Text labels for the daemon buttons, in the same order")
+    private daemonLabels: Text[] = [];
+
+    @input
+    @hint("Text showing the current endpoint and scan progress")
+    private statusLabel!: Text;
+
+    @input
+    @hint("Open the picker when an automatic rediscovery finds several daemons")
+    private openOnAmbiguousRediscovery: boolean = true;
+
+    private visibility: PanelVisibility;
+    private listedDaemons: DiscoveredDaemon[] = [];
+
+    onAwake() {
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        if (this.scanButton) {
+            this.scanButton.onTriggerUp.add(() => this.scan());
+        }
+        this.daemonButtons.forEach((button, index) => {
+            if (button) {
+                button.onTriggerUp.add(() => this.selectDaemon(index));
+            }
+        });
+
+        if (this.discovery) {
+            this.discovery.onDaemonFound.add(() => this.renderList(this.discovery.getResults()));
+            this.discovery.onDiscoveryFinished.add((results: DiscoveredDaemon[]) => {
+                this.renderList(results);
+                this.renderStatus();
+                if (this.openOnAmbiguousRediscovery && !this.visibility.isVisible() && results.length > 1
+                    && !results.some((result) => result.baseUrl === this.discovery.getCurrentEndpoint())) {
+                    this.setVisible(true);
+                }
+            });
+            this.discovery.onEndpointSelected.add(() => {
+                this.renderList(this.listedDaemons);
+                this.renderStatus();
+            });
+        }
+
+        // Keep the scan progress current while a discovery runs
+        this.createEvent("UpdateEvent").bind(() => {
+            if (this.visibility.isVisible() && this.discovery && this.discovery.isDiscovering()) {
+                this.renderStatus();
+            }
+        });
+
+        this.renderList([]);
+        this.renderStatus();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the picker; opening it lists the results of the last scan
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        if (visible && this.discovery) {
+            this.renderList(this.discovery.getResults());
+            this.renderStatus();
+        }
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Scan the network for daemons
+     */
+    public async scan(): Promise<void> {
+        if (!this.discovery) {
+            return;
+        }
+        this.renderList([]);
+        await this.discovery.discover();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private selectDaemon(index: number): void {
+        const daemon = this.listedDaemons[index];
+        if (daemon && this.discovery) {
+            this.discovery.selectEndpoint(daemon.baseUrl);
+        }
+    }
+
+    private renderList(daemons: DiscoveredDaemon[]): void {
+        this.listedDaemons = daemons.slice(0, this.daemonButtons.length);
+        const current = this.discovery ? this.discovery.getCurrentEndpoint() : null;
+        this.daemonButtons.forEach((button, index) => {
+            const daemon = this.listedDaemons[index];
+            if (button) {
+                button.getSceneObject().enabled = !!daemon;
+            }
+            if (daemon) {
+                const marker = daemon.baseUrl === current ? "✓ " : "";
+                setText(this.daemonLabels[index], `${marker}${daemon.baseUrl.replace(/^https?:\/\//, "")}  (${Math.round(daemon.responseTime * 1000)} ms)`);
+            }
+        });
+    }
+
+    private renderStatus(): void {
+        if (!this.discovery) {
+            setText(this.statusLabel, "No discovery configured");
+            return;
+        }
+        const current = this.discovery.getCurrentEndpoint() ?? "none";
+        if (this.discovery.isDiscovering()) {
+            const progress = this.discovery.getProgress();
+            setText(this.statusLabel, `Scanning ${progress.probed} / ${progress.total}...`);
+            return;
+        }
+        const found = this.discovery.getResults().length;
+        const hidden = found - this.listedDaemons.length;
+        setText(this.statusLabel, `Using ${current}  |  ${found} found${hidden > 0 ? ` (${hidden} not shown)` : ""}`);
+    }
+}
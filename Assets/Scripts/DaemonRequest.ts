@@ -0,0 +1,69 @@
+/**
+ * Lets a caller abandon a pending daemon request.
+ * Cancelling rejects the request with DaemonCancelledError; the HTTP call itself cannot be aborted,
+ * its response is simply ignored.
+ */
+export class CancellationToken {
+    private cancelled: boolean = false;
+    private listeners: (() => void)[] = [];
+
+    get isCancelled(): boolean {
+        return this.cancelled;
+    }
+
+    /**
+     * Cancel every request using this token. Has no effect if already cancelled.
+     */
+    public cancel(): void {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        const listeners = this.listeners;
+        this.listeners = [];
+        listeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Register a callback run on cancellation (immediately if already cancelled)
+     * @returns Function removing the callback
+     */
+    public onCancelled(listener: () => void): () => void {
+        if (this.cancelled) {
+            listener();
+            return () => {};
+        }
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index >= 0) {
+                this.listeners.splice(index, 1);
+            }
+        };
+    }
+}
+
+/**
+ * Retry behaviour for idempotent requests. Only transient failures are retried.
+ */
+export interface RetryPolicy {
+    maxAttempts: number; // Total attempts, including the first one
+    initialDelay: number; // Seconds before the first retry
+    backoffMultiplier: number; // Delay growth factor between retries
+}
+
+/**
+ * Per-call options for DaemonInterface requests.
+ */
+export interface RequestOptions {
+    timeout?: number; // Seconds, defaults to DaemonInterface.defaultTimeout
+    cancellationToken?: CancellationToken;
+    retry?: RetryPolicy; // Ignored for non-GET requests
+}
+
+/** Default policy for idempotent GETs such as listRecordedMoves and getRunningMoves */
+export const DEFAULT_GET_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialDelay: 0.25,
+    backoffMultiplier: 2
+};
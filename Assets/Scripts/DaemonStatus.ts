@@ -0,0 +1,42 @@
+import {DaemonResponseError} from "./DaemonErrors"
+
+/**
+ * Lifecycle state of the daemon's robot backend, from /api/daemon/status.
+ */
+export enum DaemonState {
+    NotInitialized = "not_initialized",
+    Starting = "starting",
+    Running = "running",
+    Stopping = "stopping",
+    Stopped = "stopped",
+    Error = "error"
+}
+
+/**
+ * Typed /api/daemon/status body.
+ */
+export interface DaemonStatus {
+    state: DaemonState;
+    robotName: string | null;
+    version: string | null;
+    simulationEnabled: boolean;
+    error: string | null;
+}
+
+/**
+ * Validate and convert a /api/daemon/status body into a DaemonStatus
+ * @throws DaemonResponseError if the state is missing or unknown
+ */
+export function parseDaemonStatus(data: any, endpoint: string): DaemonStatus {
+    const states = Object.keys(DaemonState).map((key) => (DaemonState as any)[key]);
+    if (!data || states.indexOf(data.state) < 0) {
+        throw new DaemonResponseError(endpoint, `unknown daemon state in ${JSON.stringify(data)}`);
+    }
+    return {
+        state: data.state as DaemonState,
+        robotName: typeof data.robot_name === "string" ? data.robot_name : null,
+        version: typeof data.version === "string" ? data.version : null,
+        simulationEnabled: data.simulation_enabled === true,
+        error: typeof data.error === "string" ? data.error : null
+    };
+}
@@ -0,0 +1,14 @@
+/**
+ * Wait for the given number of seconds
+ * @param script Component whose events time the wait; the wait never ends if it is destroyed first
+ */
+export function wait(script: BaseScriptComponent, seconds: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+        const delayEvent = script.createEvent("DelayedCallbackEvent");
+        delayEvent.bind(() => {
+            script.removeEvent(delayEvent);
+            resolve();
+        });
+        delayEvent.reset(seconds);
+    });
+}
@@ -0,0 +1,291 @@
+import {SentCommand, XYZRPYPose} from "./DaemonInterface"
+import {StreamTarget} from "./TargetStreamer"
+import {RobotStateSnapshot} from "./RobotStateSnapshot"
+
+/**
+ * Scene objects of one Reachy model (the twin, or its ghost).
+ */
+interface TwinRig {
+    body: SceneObject | null;
+    head: SceneObject | null;
+    rightAntenna: SceneObject | null;
+    leftAntenna: SceneObject | null;
+    headBasePosition: vec3;
+    rightAntennaBaseRotation: quat;
+    leftAntennaBaseRotation: quat;
+}
+
+/** Head angles closer than this count as reaching the commanded pose when measuring lag */
+const ARRIVAL_TOLERANCE: number = 2 * Math.PI / 180;
+
+/**
+ * Virtual Reachy Mini that moves with the daemon-reported state, plus a translucent ghost showing the
+ * pose of the last goto, set_target or streamed target. The gap between ghost and twin shows the
+ * command-to-pose lag. With DaemonInterface in twin-only mode the twin follows the simulated robot.
+ *
+ * The model's root faces local +Z with its left along +X; the head is a child of the body so the body
+ * yaw turns it, and each antenna rotates around antennaAxis.
+ */
+@component
+export class DigitalTwin extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("Twin body, turned by the body yaw")
+    private body!: SceneObject;
+
+    @input
+    @hint("Twin head (child of the body), posed by the head pose")
+    private head!: SceneObject;
+
+    @input
+    private rightAntenna: SceneObject;
+
+    @input
+    private leftAntenna: SceneObject;
+
+    @input
+    @hint("Root of the ghost model, shown while a command is being previewed")
+    private ghostRoot: SceneObject;
+
+    @input
+    private ghostBody: SceneObject;
+
+    @input
+    private ghostHead: SceneObject;
+
+    @input
+    private ghostRightAntenna: SceneObject;
+
+    @input
+    private ghostLeftAntenna: SceneObject;
+
+    @input
+    @hint("Local axis each antenna rotates around")
+    private antennaAxis: vec3 = new vec3(0, 0, 1);
+
+    @input
+    @hint("Scene units per meter of head translation (Lens units are centimeters)")
+    private positionScale: number = 100;
+
+    @input
+    @hint("Robot state reads per second")
+    private stateRateHz: number = 20;
+
+    @input
+    @hint("Smoothing rate of the twin towards the latest state (higher = snappier)")
+    private smoothingRate: number = 15;
+
+    @input
+    @hint("Seconds the ghost stays visible after the twin reached it or the command ended")
+    private ghostHoldTime: number = 0.5;
+
+    @input
+    @hint("Optional text showing the last command and the measured lag")
+    private statusLabel: Text;
+
+    private twin: TwinRig | null = null;
+    private ghost: TwinRig | null = null;
+    private shownPose: XYZRPYPose | null = null;
+    private shownBodyYaw: number = 0;
+    private shownAntennas: [number, number] = [0, 0];
+    private latestState: RobotStateSnapshot | null = null;
+    private stopStateSubscription: (() => void) | null = null;
+
+    private ghostPose: XYZRPYPose | null = null;
+    private ghostSentTime: number = 0;
+    private ghostDuration: number = 0;
+    private ghostHideTime: number = -1;
+    private hasArrived: boolean = false;
+    private lastCommandLabel: string = "";
+    private lagMs: number = -1; // Command sent to pose reached, beyond the command's own duration
+
+    onAwake() {
+        this.twin = this.createRig(this.body, this.head, this.rightAntenna, this.leftAntenna);
+        this.ghost = this.createRig(this.ghostBody, this.ghostHead, this.ghostRightAntenna, this.ghostLeftAntenna);
+        this.setGhostVisible(false);
+
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.onCommandSent) {
+            daemon.onCommandSent.add((command: SentCommand) => this.handleCommand(command));
+        }
+        if (daemon && daemon.onTargetStreamed) {
+            daemon.onTargetStreamed.add((target: StreamTarget) => this.showGhost(target.headPose, target.bodyYaw ?? null, target.antennas, 0, "stream"));
+        }
+
+        this.createEvent("OnStartEvent").bind(() => this.subscribeState());
+        this.createEvent("OnEnableEvent").bind(() => this.subscribeState());
+        this.createEvent("OnDisableEvent").bind(() => this.unsubscribeState());
+        this.createEvent("OnDestroyEvent").bind(() => this.unsubscribeState());
+        this.createEvent("UpdateEvent").bind(() => this.update());
+
+        this.renderStatus();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // State
+    // -----------------------------------------------------------------------------------------
+
+    private subscribeState(): void {
+        const daemon = this.daemonInterface as any;
+        if (this.stopStateSubscription || !daemon || !daemon.subscribeRobotState) {
+            return;
+        }
+        this.stopStateSubscription = daemon.subscribeRobotState(this.stateRateHz, (snapshot: RobotStateSnapshot) => {
+            this.latestState = snapshot;
+        });
+    }
+
+    private unsubscribeState(): void {
+        if (this.stopStateSubscription) {
+            this.stopStateSubscription();
+            this.stopStateSubscription = null;
+        }
+    }
+
+    /**
+     * Ease the twin towards the latest state and check whether it reached the ghost
+     */
+    private update(): void {
+        if (this.latestState) {
+            const target = this.latestState;
+            if (!this.shownPose) {
+                this.shownPose = {...target.headPose};
+                this.shownBodyYaw = target.bodyYaw;
+                this.shownAntennas = [target.antennas[0], target.antennas[1]];
+            } else {
+                const factor = 1 - Math.exp(-this.smoothingRate * getDeltaTime());
+                const ease = (from: number, to: number) => from + (to - from) * factor;
+                this.shownPose = {
+                    x: ease(this.shownPose.x, target.headPose.x),
+                    y: ease(this.shownPose.y, target.headPose.y),
+                    z: ease(this.shownPose.z, target.headPose.z),
+                    roll: ease(this.shownPose.roll, target.headPose.roll),
+                    pitch: ease(this.shownPose.pitch, target.headPose.pitch),
+                    yaw: ease(this.shownPose.yaw, target.headPose.yaw)
+                };
+                this.shownBodyYaw = ease(this.shownBodyYaw, target.bodyYaw);
+                this.shownAntennas = [ease(this.shownAntennas[0], target.antennas[0]), ease(this.shownAntennas[1], target.antennas[1])];
+            }
+            this.applyPose(this.twin, this.shownPose, this.shownBodyYaw, this.shownAntennas);
+            this.checkArrival(target);
+        }
+
+        if (this.ghostHideTime >= 0 && getTime() >= this.ghostHideTime) {
+            this.ghostHideTime = -1;
+            this.setGhostVisible(false);
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Ghost
+    // -----------------------------------------------------------------------------------------
+
+    private handleCommand(command: SentCommand): void {
+        if (command.headPose) {
+            this.showGhost(command.headPose, command.bodyYaw, command.antennas ?? [0, 0], command.duration, command.source);
+        } else {
+            // Recorded moves only exist on the daemon: nothing to preview but the name
+            this.ghostPose = null;
+            this.setGhostVisible(false);
+            this.lastCommandLabel = `▶ ${command.moveName ?? command.source}`;
+            this.renderStatus();
+        }
+    }
+
+    private showGhost(headPose: XYZRPYPose, bodyYaw: number | null, antennas: [number, number], duration: number, source: string): void {
+        const isNewCommand = source !== "stream" || !this.ghostPose || this.hasArrived;
+        this.ghostPose = headPose;
+        if (isNewCommand) {
+            this.ghostSentTime = getTime();
+            this.ghostDuration = duration;
+            this.hasArrived = false;
+        }
+        this.applyPose(this.ghost, headPose, bodyYaw ?? this.shownBodyYaw, antennas);
+        this.setGhostVisible(true);
+        this.ghostHideTime = getTime() + duration + this.ghostHoldTime + 1.0; // Hidden earlier once the twin arrives
+        this.lastCommandLabel = source;
+        this.renderStatus();
+    }
+
+    /**
+     * Measure the lag once the reported head pose reaches the ghost
+     */
+    private checkArrival(state: RobotStateSnapshot): void {
+        if (!this.ghostPose || this.hasArrived) {
+            return;
+        }
+        const reached = Math.abs(state.headPose.yaw - this.ghostPose.yaw) < ARRIVAL_TOLERANCE
+            && Math.abs(state.headPose.pitch - this.ghostPose.pitch) < ARRIVAL_TOLERANCE
+            && Math.abs(state.headPose.roll - this.ghostPose.roll) < ARRIVAL_TOLERANCE;
+        if (!reached) {
+            return;
+        }
+        this.hasArrived = true;
+        this.lagMs = Math.max(0, (getTime() - this.ghostSentTime - this.ghostDuration) * 1000);
+        this.ghostHideTime = getTime() + this.ghostHoldTime;
+        this.renderStatus();
+    }
+
+    private setGhostVisible(visible: boolean): void {
+        if (this.ghostRoot) {
+            this.ghostRoot.enabled = visible;
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private createRig(body: SceneObject, head: SceneObject, rightAntenna: SceneObject, leftAntenna: SceneObject): TwinRig {
+        return {
+            body: body ?? null,
+            head: head ?? null,
+            rightAntenna: rightAntenna ?? null,
+            leftAntenna: leftAntenna ?? null,
+            headBasePosition: head ? head.getTransform().getLocalPosition() : vec3.zero(),
+            rightAntennaBaseRotation: rightAntenna ? rightAntenna.getTransform().getLocalRotation() : quat.quatIdentity(),
+            leftAntennaBaseRotation: leftAntenna ? leftAntenna.getTransform().getLocalRotation() : quat.quatIdentity()
+        };
+    }
+
+    /**
+     * Pose a rig. The robot frame (x forward, y left, z up) maps to the model's +Z, +X and +Y.
+     */
+    private applyPose(rig: TwinRig | null, headPose: XYZRPYPose, bodyYaw: number, antennas: [number, number]): void {
+        if (!rig) {
+            return;
+        }
+        if (rig.body) {
+            rig.body.getTransform().setLocalRotation(quat.angleAxis(bodyYaw, vec3.up()));
+        }
+        if (rig.head) {
+            // The head is parented to the body, so its yaw is relative to the body
+            const rotation = quat.angleAxis(headPose.yaw - bodyYaw, vec3.up())
+                .multiply(quat.angleAxis(headPose.pitch, new vec3(1, 0, 0)))
+                .multiply(quat.angleAxis(headPose.roll, new vec3(0, 0, 1)));
+            const transform = rig.head.getTransform();
+            transform.setLocalRotation(rotation);
+            transform.setLocalPosition(rig.headBasePosition.add(
+                new vec3(headPose.y, headPose.z, headPose.x).uniformScale(this.positionScale)));
+        }
+        if (rig.rightAntenna) {
+            rig.rightAntenna.getTransform().setLocalRotation(rig.rightAntennaBaseRotation.multiply(quat.angleAxis(antennas[0], this.antennaAxis)));
+        }
+        if (rig.leftAntenna) {
+            rig.leftAntenna.getTransform().setLocalRotation(rig.leftAntennaBaseRotation.multiply(quat.angleAxis(antennas[1], this.antennaAxis)));
+        }
+    }
+
+    private renderStatus(): void {
+        if (!this.statusLabel) {
+            return;
+        }
+        const daemon = this.daemonInterface as any;
+        const mode = daemon && daemon.isSimulated && daemon.isSimulated() ? "Simulated" : "Live";
+        const lag = this.lagMs < 0 ? "--" : `${Math.round(this.lagMs)} ms`;
+        this.statusLabel.text = `${mode}  |  ${this.lastCommandLabel || "no command yet"}  |  lag ${lag}`;
+    }
+}
@@ -0,0 +1,27 @@
+import {DaemonResponseError} from "./DaemonErrors"
+
+/**
+ * Direction of the loudest sound source heard by the microphone array, from /api/audio/doa.
+ */
+export interface DirectionOfArrival {
+    angle: number; // Raw array angle in radians: 0 = robot's left, PI/2 = front, PI = right
+    yaw: number; // Same direction as a robot yaw: 0 = front, positive = left
+    speechDetected: boolean;
+    timestamp: number; // Daemon timestamp in seconds, or lens time if the daemon sent none
+}
+
+/**
+ * Validate and convert a /api/audio/doa body into a DirectionOfArrival
+ * @throws DaemonResponseError if the angle is missing
+ */
+export function parseDirectionOfArrival(data: any, endpoint: string): DirectionOfArrival {
+    if (!data || typeof data.angle !== "number" || !isFinite(data.angle)) {
+        throw new DaemonResponseError(endpoint, `expected a direction of arrival angle, got ${JSON.stringify(data)}`);
+    }
+    return {
+        angle: data.angle,
+        yaw: Math.PI / 2 - data.angle,
+        speechDetected: data.speech_detected === true,
+        timestamp: typeof data.timestamp === "number" ? data.timestamp : getTime()
+    };
+}
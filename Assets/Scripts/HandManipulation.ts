@@ -0,0 +1,204 @@
+import {KinematicLimits} from "./KinematicLimits"
+import {LookAtMotionOutput, smoothingFactor} from "./LookAtMotion"
+
+const DEG: number = Math.PI / 180;
+
+/**
+ * Tuning for direct hand manipulation. Distances in cm (Lens world units), angles in radians.
+ */
+export interface HandManipulationSettings {
+    grabRadius: number; // How close to the robot's head a gesture has to start
+    pinchDistance: number; // Fingertip distance that starts a pinch
+    releaseDistance: number; // Fingertip distance that ends it (hysteresis)
+    dragSensitivity: number; // Head yaw/pitch per cm of drag
+    antennaSensitivity: number; // Antenna angle per cm of vertical drag
+    twistGain: number; // Head roll per radian of wrist twist
+    smoothingRate: number; // Rate per second at which the robot follows the gesture
+}
+
+export const DEFAULT_HAND_MANIPULATION_SETTINGS: HandManipulationSettings = {
+    grabRadius: 25,
+    pinchDistance: 2.0,
+    releaseDistance: 3.5,
+    dragSensitivity: 2 * DEG,
+    antennaSensitivity: 4 * DEG,
+    twistGain: 0.5,
+    smoothingRate: 8
+};
+
+/**
+ * Gesture currently driving the robot.
+ */
+export enum HandGesture {
+    None = "none",
+    Drag = "drag", // Thumb-index pinch: drag nudges yaw/pitch, wrist twist sets roll
+    Antennas = "antennas" // Thumb-middle pinch: vertical drag raises/lowers the antennas
+}
+
+/**
+ * Hand keypoints for one frame, in the robot frame (+Z forward, +X the robot's left), relative to its head
+ * once calibrated. Points and directions must be converted from world space before being passed in.
+ */
+export interface HandSample {
+    thumbTip: vec3;
+    indexTip: vec3;
+    middleTip: vec3;
+    wristRight: vec3;
+    wristForward: vec3;
+}
+
+interface ManipulationTarget {
+    yaw: number; // Total yaw (body + head)
+    pitch: number;
+    roll: number;
+    antenna: number;
+}
+
+/**
+ * Turns pinch gestures near the robot into head and antenna targets, clamped to the kinematic limits
+ * and smoothed over time.
+ */
+export class HandManipulation {
+    private limits: KinematicLimits;
+    private settings: HandManipulationSettings;
+    private gesture: HandGesture = HandGesture.None;
+    private target: ManipulationTarget = {yaw: 0, pitch: 0, roll: 0, antenna: 0};
+    private current: ManipulationTarget = {yaw: 0, pitch: 0, roll: 0, antenna: 0};
+
+    // Captured when a gesture starts
+    private startTarget: ManipulationTarget = {yaw: 0, pitch: 0, roll: 0, antenna: 0};
+    private startPosition: vec3 = vec3.zero();
+    private startWristRight: vec3 = vec3.right();
+
+    constructor(limits: KinematicLimits, settings: HandManipulationSettings = DEFAULT_HAND_MANIPULATION_SETTINGS) {
+        this.limits = limits;
+        this.settings = settings;
+    }
+
+    public setLimits(limits: KinematicLimits): void {
+        this.limits = limits;
+    }
+
+    public getGesture(): HandGesture {
+        return this.gesture;
+    }
+
+    /**
+     * Restart from the given pose (e.g. the robot's actual pose)
+     */
+    public reset(yaw: number, pitch: number, roll: number, antenna: number): void {
+        this.target = this.clampTarget({yaw: yaw, pitch: pitch, roll: roll, antenna: antenna});
+        this.current = {...this.target};
+        this.gesture = HandGesture.None;
+    }
+
+    /**
+     * Advance gesture recognition and smoothing
+     * @param hand Hand keypoints, or null when the hand is not tracked
+     * @param robotHeadPosition Position of the robot's head in the same frame as the sample, gestures start within grabRadius of it
+     * @param dt Seconds since the previous update
+     */
+    public update(hand: HandSample | null, robotHeadPosition: vec3, dt: number): LookAtMotionOutput {
+        this.updateGesture(hand, robotHeadPosition);
+
+        const factor = smoothingFactor(this.settings.smoothingRate, Math.max(0, dt));
+        this.current.yaw += (this.target.yaw - this.current.yaw) * factor;
+        this.current.pitch += (this.target.pitch - this.current.pitch) * factor;
+        this.current.roll += (this.target.roll - this.current.roll) * factor;
+        this.current.antenna += (this.target.antenna - this.current.antenna) * factor;
+
+        // The body takes whatever yaw the head can't reach on its own
+        const headYaw = clamp(this.current.yaw, -this.limits.maxHeadYaw, this.limits.maxHeadYaw);
+        return {
+            headPose: {
+                x: 0,
+                y: 0,
+                z: 0,
+                roll: this.current.roll,
+                pitch: this.current.pitch,
+                yaw: this.current.yaw
+            },
+            bodyYaw: this.current.yaw - headYaw,
+            antennas: [this.current.antenna, this.current.antenna]
+        };
+    }
+
+    private updateGesture(hand: HandSample | null, robotHeadPosition: vec3): void {
+        if (!hand) {
+            this.gesture = HandGesture.None;
+            return;
+        }
+
+        const indexDistance = hand.thumbTip.distance(hand.indexTip);
+        const middleDistance = hand.thumbTip.distance(hand.middleTip);
+
+        // End the current gesture once its fingers open past the release distance
+        if (this.gesture === HandGesture.Drag && indexDistance > this.settings.releaseDistance) {
+            this.gesture = HandGesture.None;
+        } else if (this.gesture === HandGesture.Antennas && middleDistance > this.settings.releaseDistance) {
+            this.gesture = HandGesture.None;
+        }
+
+        if (this.gesture === HandGesture.None) {
+            const pinchPosition = hand.thumbTip;
+            if (pinchPosition.distance(robotHeadPosition) > this.settings.grabRadius) {
+                return;
+            }
+            if (indexDistance < this.settings.pinchDistance) {
+                this.beginGesture(HandGesture.Drag, hand);
+            } else if (middleDistance < this.settings.pinchDistance) {
+                this.beginGesture(HandGesture.Antennas, hand);
+            } else {
+                return;
+            }
+        }
+
+        const delta = hand.thumbTip.sub(this.startPosition);
+        const next: ManipulationTarget = {...this.target};
+        if (this.gesture === HandGesture.Drag) {
+            // The robot faces +Z: dragging towards +X turns it to its left, dragging up looks up (negative pitch)
+            next.yaw = this.startTarget.yaw + delta.x * this.settings.dragSensitivity;
+            next.pitch = this.startTarget.pitch - delta.y * this.settings.dragSensitivity;
+            next.roll = this.startTarget.roll
+                + signedAngle(this.startWristRight, hand.wristRight, hand.wristForward) * this.settings.twistGain;
+        } else {
+            next.antenna = this.startTarget.antenna + delta.y * this.settings.antennaSensitivity;
+        }
+        this.target = this.clampTarget(next);
+    }
+
+    private beginGesture(gesture: HandGesture, hand: HandSample): void {
+        this.gesture = gesture;
+        this.startTarget = {...this.target};
+        this.startPosition = hand.thumbTip;
+        this.startWristRight = hand.wristRight;
+    }
+
+    private clampTarget(target: ManipulationTarget): ManipulationTarget {
+        const limits = this.limits;
+        const maxTotalYaw = limits.maxBodyYaw + limits.maxHeadYaw;
+        return {
+            yaw: clamp(target.yaw, -maxTotalYaw, maxTotalYaw),
+            pitch: clamp(target.pitch, limits.minPitch, limits.maxPitch),
+            roll: clamp(target.roll, -limits.maxRoll, limits.maxRoll),
+            antenna: clamp(target.antenna, -limits.maxAntenna, limits.maxAntenna)
+        };
+    }
+}
+
+/** Signed angle from one vector to another around an axis */
+function signedAngle(from: vec3, to: vec3, axis: vec3): number {
+    const n = axis.normalize();
+    // Project both vectors onto the plane perpendicular to the axis
+    const a = from.sub(n.uniformScale(from.dot(n)));
+    const b = to.sub(n.uniformScale(to.dot(n)));
+    if (a.length < 1e-6 || b.length < 1e-6) {
+        return 0;
+    }
+    return Math.atan2(a.cross(b).dot(n), a.dot(b));
+}
+
+/** Clamp a value between min and max */
+function clamp(val: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, val));
+}
@@ -0,0 +1,78 @@
+import {DEFAULT_LOOK_AT_MOTION_SETTINGS, LookAtMotionSettings, perFrameToRate} from "./LookAtMotion"
+
+/**
+ * Motion tuning for teleoperation: snappier than look-at and without the character wobble,
+ * so the robot follows the wearer's head instead of adding its own movement.
+ */
+export const TELEOP_MOTION_SETTINGS: LookAtMotionSettings = {
+    ...DEFAULT_LOOK_AT_MOTION_SETTINGS,
+    headYawRate: perFrameToRate(0.15),
+    headPitchRate: perFrameToRate(0.15),
+    pitchWobbleAmplitude: 0,
+    yawWobbleAmplitude: 0,
+    rollWobbleAmplitude: 0,
+    antennaBaseAmplitude: 0
+};
+
+/**
+ * Head angles to mirror onto the robot, in radians, in the robot's convention
+ * (yaw left positive, pitch up negative, roll right ear down positive).
+ */
+export interface TeleopAngles {
+    yaw: number;
+    pitch: number;
+    roll: number;
+}
+
+/**
+ * Maps the wearer's head rotation, relative to a captured reference, onto robot head angles.
+ */
+export class HeadTeleop {
+    private reference: quat = quat.quatIdentity();
+    private gain: number;
+
+    constructor(gain: number = 1.0) {
+        this.gain = gain;
+    }
+
+    /**
+     * Make the given head rotation the robot's neutral pose
+     */
+    public recenter(rotation: quat): void {
+        this.reference = rotation;
+    }
+
+    public getGain(): number {
+        return this.gain;
+    }
+
+    /**
+     * Scale applied to the head angles (1 = mirror 1:1)
+     */
+    public setGain(gain: number): void {
+        this.gain = Math.max(0, gain);
+    }
+
+    /**
+     * Compute the robot head angles for the wearer's current head rotation
+     * @param rotation World rotation of the camera
+     */
+    public computeAngles(rotation: quat): TeleopAngles {
+        const relative = this.reference.invert().multiply(rotation);
+
+        // The camera looks down -Z with +Y up
+        const forward = relative.multiplyVec3(new vec3(0, 0, -1));
+        const right = relative.multiplyVec3(new vec3(1, 0, 0));
+        const horizontalDist = Math.sqrt(forward.x * forward.x + forward.z * forward.z);
+
+        const yaw = Math.atan2(-forward.x, -forward.z);
+        const pitch = -Math.atan2(forward.y, horizontalDist);
+        const roll = -Math.asin(Math.max(-1, Math.min(1, right.y)));
+
+        return {
+            yaw: yaw * this.gain,
+            pitch: pitch * this.gain,
+            roll: roll * this.gain
+        };
+    }
+}
@@ -0,0 +1,85 @@
+import {IdleBehaviorEntry, parseIdlePlaylistJson} from "./IdleBehaviorScheduler"
+
+/**
+ * Inspector configuration for the idle behavior playlist used by ReachyMiniController.
+ * Entries are given as parallel arrays (one index per move), or as JSON which takes precedence:
+ * a JSON asset, or JSON pasted in the inspector which overrides the asset.
+ */
+@component
+export class IdleBehaviorPlaylist extends BaseScriptComponent {
+    @input
+    @hint("Optional JSON playlist, overrides the asset and the arrays below. Format: [{\"datasetName\", \"moveName\", \"weight\", \"cooldown\", \"minPause\", \"maxPause\", \"gotoNeutralFirst\"}]")
+    private playlistJson: string = "";
+
+    @input
+    @hint("Optional JSON file with the playlist in the same format, overrides the arrays below")
+    private playlistAsset: TextAsset;
+
+    @input
+    @hint("Dataset of each move")
+    private datasetNames: string[] = ["pollen-robotics/reachy-mini-emotions-library"];
+
+    @input
+    @hint("Name of each move")
+    private moveNames: string[] = ["attentive2"];
+
+    @input
+    @hint("Relative likelihood of each move (default 1)")
+    private weights: number[] = [1];
+
+    @input
+    @hint("Seconds before each move can play again (default 0)")
+    private cooldowns: number[] = [0];
+
+    @input
+    @hint("Minimum pause in seconds after each move (default 0)")
+    private minPauses: number[] = [0];
+
+    @input
+    @hint("Maximum pause in seconds after each move (default = min pause)")
+    private maxPauses: number[] = [0];
+
+    @input
+    @hint("Move to the neutral pose before each move (default false)")
+    private gotoNeutralFirst: boolean[] = [true];
+
+    /**
+     * Get the configured playlist entries
+     */
+    public getEntries(): IdleBehaviorEntry[] {
+        const sources: {name: string; json: string}[] = [
+            {name: "playlistJson", json: this.playlistJson},
+            {name: "playlistAsset", json: this.playlistAsset ? this.playlistAsset.text : ""}
+        ];
+        for (const source of sources) {
+            if (!source.json || source.json.trim().length === 0) {
+                continue;
+            }
+            try {
+                return parseIdlePlaylistJson(source.json);
+            } catch (error) {
+                print(`IdleBehaviorPlaylist: Invalid ${source.name}, skipping: ${error}`);
+            }
+        }
+
+        const count = Math.min(this.datasetNames.length, this.moveNames.length);
+        const entries: IdleBehaviorEntry[] = [];
+        for (let i = 0; i < count; i++) {
+            const minPause = this.valueAt(this.minPauses, i, 0);
+            entries.push({
+                datasetName: this.datasetNames[i],
+                moveName: this.moveNames[i],
+                weight: this.valueAt(this.weights, i, 1),
+                cooldown: this.valueAt(this.cooldowns, i, 0),
+                minPause: minPause,
+                maxPause: this.valueAt(this.maxPauses, i, minPause),
+                gotoNeutralFirst: this.valueAt(this.gotoNeutralFirst, i, false)
+            });
+        }
+        return entries;
+    }
+
+    private valueAt<T>(values: T[], index: number, fallback: T): T {
+        return values && index < values.length && values[index] !== undefined ? values[index] : fallback;
+    }
+}
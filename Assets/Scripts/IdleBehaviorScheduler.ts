@@ -0,0 +1,124 @@
+/**
+ * One recorded move the robot may play while idle.
+ */
+export interface IdleBehaviorEntry {
+    datasetName: string;
+    moveName: string;
+    weight: number; // Relative likelihood of being picked
+    cooldown: number; // Seconds after the move ends before it can be picked again
+    minPause: number; // Seconds to wait after the move, lower bound
+    maxPause: number; // Seconds to wait after the move, upper bound
+    gotoNeutralFirst: boolean; // Move to the neutral pose before playing
+}
+
+/** Fallback playlist: the original attentive2 loop */
+export const DEFAULT_IDLE_PLAYLIST: IdleBehaviorEntry[] = [
+    {
+        datasetName: "pollen-robotics/reachy-mini-emotions-library",
+        moveName: "attentive2",
+        weight: 1,
+        cooldown: 0,
+        minPause: 0,
+        maxPause: 0,
+        gotoNeutralFirst: true
+    }
+];
+
+/**
+ * Picks idle moves by weight, skipping moves still in cooldown, and decides the pause after each one.
+ * Has no Lens Studio dependencies; time is passed in by the caller.
+ */
+export class IdleBehaviorScheduler {
+    private entries: IdleBehaviorEntry[];
+    private random: () => number;
+    private availableAt: Map<IdleBehaviorEntry, number> = new Map<IdleBehaviorEntry, number>();
+    private lastEntry: IdleBehaviorEntry | null = null;
+
+    constructor(entries: IdleBehaviorEntry[], random: () => number = Math.random) {
+        this.entries = entries.filter((entry) => entry.weight > 0);
+        this.random = random;
+    }
+
+    /**
+     * Pick the next move to play, or null if every entry is in cooldown
+     * @param now Current time in seconds
+     */
+    public pickNext(now: number): IdleBehaviorEntry | null {
+        let candidates = this.entries.filter((entry) => (this.availableAt.get(entry) ?? -Infinity) <= now);
+        // Avoid playing the same move twice in a row when there is a choice
+        if (candidates.length > 1 && this.lastEntry) {
+            candidates = candidates.filter((entry) => entry !== this.lastEntry);
+        }
+        if (candidates.length === 0) {
+            return null;
+        }
+
+        const totalWeight = candidates.reduce((sum, entry) => sum + entry.weight, 0);
+        let roll = this.random() * totalWeight;
+        for (const entry of candidates) {
+            roll -= entry.weight;
+            if (roll < 0) {
+                return entry;
+            }
+        }
+        return candidates[candidates.length - 1];
+    }
+
+    /**
+     * Record that a move finished (or failed), starting its cooldown
+     * @returns Seconds to pause before the next move
+     */
+    public markFinished(entry: IdleBehaviorEntry, now: number): number {
+        this.availableAt.set(entry, now + entry.cooldown);
+        this.lastEntry = entry;
+        const minPause = Math.max(0, entry.minPause);
+        const maxPause = Math.max(minPause, entry.maxPause);
+        return minPause + this.random() * (maxPause - minPause);
+    }
+
+    /**
+     * Seconds until at least one entry leaves its cooldown (0 if one is available now)
+     */
+    public timeUntilAvailable(now: number): number {
+        if (this.entries.length === 0) {
+            return Infinity;
+        }
+        const soonest = Math.min(...this.entries.map((entry) => this.availableAt.get(entry) ?? -Infinity));
+        return Math.max(0, soonest - now);
+    }
+
+    public isEmpty(): boolean {
+        return this.entries.length === 0;
+    }
+}
+
+/**
+ * Parse a JSON playlist: either an array of entries or {"entries": [...]}.
+ * Missing fields take defaults (weight 1, no cooldown or pause, no neutral transition).
+ * @throws Error if the JSON is invalid or an entry has no dataset/move name
+ */
+export function parseIdlePlaylistJson(json: string): IdleBehaviorEntry[] {
+    const data = JSON.parse(json);
+    const list = Array.isArray(data) ? data : data && data.entries;
+    if (!Array.isArray(list)) {
+        throw new Error(`Idle playlist must be an array or {"entries": [...]}`);
+    }
+    return list.map((item: any, index: number) => {
+        if (!item || typeof item.datasetName !== "string" || typeof item.moveName !== "string") {
+            throw new Error(`Idle playlist entry ${index} needs a datasetName and a moveName`);
+        }
+        return {
+            datasetName: item.datasetName,
+            moveName: item.moveName,
+            weight: numberOr(item.weight, 1),
+            cooldown: numberOr(item.cooldown, 0),
+            minPause: numberOr(item.minPause, 0),
+            maxPause: numberOr(item.maxPause, numberOr(item.minPause, 0)),
+            gotoNeutralFirst: item.gotoNeutralFirst === true
+        };
+    });
+}
+
+function numberOr(value: any, fallback: number): number {
+    return typeof value === "number" && isFinite(value) ? value : fallback;
+}
@@ -0,0 +1,117 @@
+import {XYZRPYPose} from "./DaemonInterface"
+
+const DEG: number = Math.PI / 180;
+
+/**
+ * Mechanical range of the head, body and antennas. Angles in radians, translations in meters.
+ */
+export interface KinematicLimits {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+    minZ: number;
+    maxZ: number;
+    minPitch: number; // Looking down
+    maxPitch: number; // Looking up
+    maxRoll: number; // ± head tilt
+    maxHeadYaw: number; // ± head yaw relative to the body
+    maxBodyYaw: number; // ± absolute body yaw
+    maxAntenna: number; // ± antenna angle
+}
+
+/**
+ * Limits of the Reachy Mini. The Lite and Wireless versions share the same head and body mechanics,
+ * so one profile covers both.
+ */
+export const REACHY_MINI_LIMITS: KinematicLimits = {
+    minX: -0.03,
+    maxX: 0.03,
+    minY: -0.03,
+    maxY: 0.03,
+    minZ: -0.04,
+    maxZ: 0.03,
+    minPitch: -30 * DEG,
+    maxPitch: 20 * DEG,
+    maxRoll: 10 * DEG,
+    maxHeadYaw: 35 * DEG,
+    maxBodyYaw: 160 * DEG,
+    maxAntenna: 45 * DEG
+};
+
+/**
+ * An out-of-range value found in an outgoing command, and what it was clamped to.
+ */
+export interface LimitViolation {
+    field: string; // e.g. "head_pose.pitch", "head_yaw_relative_to_body", "antennas[0]"
+    value: number;
+    clampedTo: number;
+    min: number;
+    max: number;
+}
+
+/**
+ * A command after validation.
+ */
+export interface ClampedCommand {
+    headPose: XYZRPYPose;
+    bodyYaw?: number;
+    antennas?: [number, number];
+    violations: LimitViolation[];
+}
+
+/**
+ * Validate a head pose, body yaw and antennas against the limits and clamp anything out of range.
+ * When the body yaw is given, the head yaw is also kept within maxHeadYaw of it; otherwise only
+ * the total reachable yaw (body + head) is enforced.
+ */
+export function clampCommand(limits: KinematicLimits, headPose: XYZRPYPose, bodyYaw?: number, antennas?: [number, number]): ClampedCommand {
+    const violations: LimitViolation[] = [];
+    const check = (field: string, value: number, min: number, max: number): number => {
+        if (!isFinite(value)) {
+            violations.push({field: field, value: value, clampedTo: 0, min: min, max: max});
+            return Math.max(min, Math.min(max, 0));
+        }
+        const clamped = Math.max(min, Math.min(max, value));
+        if (clamped !== value) {
+            violations.push({field: field, value: value, clampedTo: clamped, min: min, max: max});
+        }
+        return clamped;
+    };
+
+    const clampedBodyYaw = bodyYaw === undefined
+        ? undefined
+        : check("body_yaw", bodyYaw, -limits.maxBodyYaw, limits.maxBodyYaw);
+
+    let yaw: number;
+    if (clampedBodyYaw !== undefined) {
+        const relativeYaw = check("head_yaw_relative_to_body", headPose.yaw - clampedBodyYaw, -limits.maxHeadYaw, limits.maxHeadYaw);
+        yaw = clampedBodyYaw + relativeYaw;
+    } else {
+        const maxTotalYaw = limits.maxBodyYaw + limits.maxHeadYaw;
+        yaw = check("head_pose.yaw", headPose.yaw, -maxTotalYaw, maxTotalYaw);
+    }
+
+    const clampedPose: XYZRPYPose = {
+        x: check("head_pose.x", headPose.x, limits.minX, limits.maxX),
+        y: check("head_pose.y", headPose.y, limits.minY, limits.maxY),
+        z: check("head_pose.z", headPose.z, limits.minZ, limits.maxZ),
+        roll: check("head_pose.roll", headPose.roll, -limits.maxRoll, limits.maxRoll),
+        pitch: check("head_pose.pitch", headPose.pitch, limits.minPitch, limits.maxPitch),
+        yaw: yaw
+    };
+
+    const clampedAntennas: [number, number] | undefined = antennas === undefined
+        ? undefined
+        : [
+            check("antennas[0]", antennas[0], -limits.maxAntenna, limits.maxAntenna),
+            check("antennas[1]", antennas[1], -limits.maxAntenna, limits.maxAntenna)
+        ];
+
+    return {
+        headPose: clampedPose,
+        bodyYaw: clampedBodyYaw,
+        antennas: clampedAntennas,
+        violations: violations
+    };
+}
@@ -0,0 +1,354 @@
+import {XYZRPYPose} from "./DaemonInterface"
+import {KinematicLimits, REACHY_MINI_LIMITS} from "./KinematicLimits"
+
+/** Frame rate the original per-frame constants were tuned at */
+const REFERENCE_FPS: number = 60;
+
+/** Longest step integrated at once, so a hitch doesn't turn into a jump */
+const MAX_DT: number = 0.1;
+
+const DEG: number = Math.PI / 180;
+
+/**
+ * Convert a per-frame smoothing factor (tuned at 60 fps) into an exponential rate per second
+ */
+export function perFrameToRate(factor: number): number {
+    return -Math.log(1 - factor) * REFERENCE_FPS;
+}
+
+/**
+ * Fraction of the remaining distance covered in dt seconds at the given rate per second
+ */
+export function smoothingFactor(rate: number, dt: number): number {
+    return 1 - Math.exp(-rate * dt);
+}
+
+/**
+ * Tuning for the look-at motion. Rates are per second, speeds in radians per second,
+ * angles in radians.
+ */
+export interface LookAtMotionSettings {
+    // Smoothing rates (higher = snappier)
+    headYawRate: number;
+    headPitchRate: number;
+    bodyFollowRate: number;
+    antennaRate: number;
+    motionIntensityRate: number;
+
+    // Speed limits
+    maxYawSpeed: number;
+    maxPitchSpeed: number;
+    maxAntennaSpeed: number;
+    fullIntensitySpeed: number; // Head speed at which motion intensity reaches 1
+
+    // Mechanical limits
+    minPitch: number;
+    maxPitch: number;
+    maxHeadYaw: number; // Relative to the body
+    maxBodyYaw: number;
+    maxAntenna: number;
+    maxRoll: number;
+
+    // Character (temporally consistent wobble)
+    pitchWobbleAmplitude: number;
+    yawWobbleAmplitude: number;
+    rollWobbleAmplitude: number;
+    antennaBaseAmplitude: number; // Antenna movement when still
+    antennaMotionAmplitude: number; // Extra antenna movement at full motion intensity
+    antennaYawCoupling: number; // How much antennas react to the looking direction
+    wobbleSpeed: number; // Base wobble frequency
+}
+
+/** Original controller tuning, converted from per-frame values at 60 fps */
+export const DEFAULT_LOOK_AT_MOTION_SETTINGS: LookAtMotionSettings = {
+    headYawRate: perFrameToRate(0.06),
+    headPitchRate: perFrameToRate(0.04),
+    bodyFollowRate: perFrameToRate(0.04),
+    antennaRate: perFrameToRate(0.025),
+    motionIntensityRate: perFrameToRate(0.05),
+
+    maxYawSpeed: 3 * DEG * REFERENCE_FPS,
+    maxPitchSpeed: 1.5 * DEG * REFERENCE_FPS,
+    maxAntennaSpeed: 2 * DEG * REFERENCE_FPS,
+    fullIntensitySpeed: 5 * DEG * REFERENCE_FPS,
+
+    minPitch: REACHY_MINI_LIMITS.minPitch,
+    maxPitch: REACHY_MINI_LIMITS.maxPitch,
+    maxHeadYaw: REACHY_MINI_LIMITS.maxHeadYaw,
+    maxBodyYaw: REACHY_MINI_LIMITS.maxBodyYaw,
+    maxAntenna: REACHY_MINI_LIMITS.maxAntenna,
+    maxRoll: REACHY_MINI_LIMITS.maxRoll,
+
+    pitchWobbleAmplitude: 6 * DEG,
+    yawWobbleAmplitude: 5 * DEG,
+    rollWobbleAmplitude: 8 * DEG,
+    antennaBaseAmplitude: 8 * DEG,
+    antennaMotionAmplitude: 20 * DEG,
+    antennaYawCoupling: 0.2,
+    wobbleSpeed: 0.4
+};
+
+/**
+ * Copy of the settings with the mechanical limits taken from a kinematic limits profile
+ */
+export function withKinematicLimits(settings: LookAtMotionSettings, limits: KinematicLimits): LookAtMotionSettings {
+    return {
+        ...settings,
+        minPitch: limits.minPitch,
+        maxPitch: limits.maxPitch,
+        maxHeadYaw: limits.maxHeadYaw,
+        maxBodyYaw: limits.maxBodyYaw,
+        maxAntenna: limits.maxAntenna,
+        maxRoll: limits.maxRoll
+    };
+}
+
+/**
+ * Direction from the robot's head to what it should look at, in the robot's frame (+Z forward, +Y up).
+ */
+export interface LookDirection {
+    x: number;
+    y: number;
+    z: number;
+}
+
+/**
+ * Smoothed pose the motion integrates. Head yaw is the total yaw (body + relative head rotation).
+ */
+export interface LookAtMotionState {
+    headYaw: number;
+    headPitch: number;
+    headRoll: number;
+    bodyYaw: number;
+    leftAntenna: number;
+    rightAntenna: number;
+}
+
+/**
+ * What to send to the robot this step.
+ */
+export interface LookAtMotionOutput {
+    headPose: XYZRPYPose;
+    bodyYaw: number;
+    antennas: [number, number]; // [right, left]
+}
+
+/**
+ * Temporally consistent wobble using layered sin waves
+ */
+export function computeWobble(t: number, amplitude: number, baseSpeed: number, speedMultiplier: number, phaseOffset: number): number {
+    const speed = baseSpeed * speedMultiplier;
+    // Layer multiple frequencies for organic feel
+    return amplitude * (
+        0.5 * Math.sin(speed * t + phaseOffset) +
+        0.3 * Math.sin(speed * 1.7 * t + phaseOffset * 0.7) +
+        0.2 * Math.sin(speed * 2.3 * t + phaseOffset * 1.3)
+    );
+}
+
+/**
+ * Delta-time based look-at motion: smoothing, body follow, wobble and antennas.
+ * Pure and headless: give it a look direction and dt, get back the pose to send.
+ */
+export class LookAtMotion {
+    private settings: LookAtMotionSettings;
+    private state: LookAtMotionState = {
+        headYaw: 0,
+        headPitch: 0,
+        headRoll: 0,
+        bodyYaw: 0,
+        leftAntenna: 0,
+        rightAntenna: 0
+    };
+    private time: number = 0; // Seconds since reset, drives the wobble
+    private motionIntensity: number = 0; // Smoothed measure of overall motion (0-1)
+
+    constructor(settings: LookAtMotionSettings = DEFAULT_LOOK_AT_MOTION_SETTINGS) {
+        this.settings = settings;
+    }
+
+    /**
+     * Restart from the given pose (e.g. the robot's actual pose), or from neutral
+     */
+    public reset(initial?: LookAtMotionState): void {
+        this.state = initial ? {...initial} : {
+            headYaw: 0,
+            headPitch: 0,
+            headRoll: 0,
+            bodyYaw: 0,
+            leftAntenna: 0,
+            rightAntenna: 0
+        };
+        this.time = 0;
+        this.motionIntensity = 0;
+    }
+
+    public getState(): LookAtMotionState {
+        return {...this.state};
+    }
+
+    public getSettings(): LookAtMotionSettings {
+        return this.settings;
+    }
+
+    public setSettings(settings: LookAtMotionSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Convert a look direction into the yaw and pitch that face it
+     */
+    public desiredAngles(direction: LookDirection): { yaw: number; pitch: number } {
+        const horizontalDist = Math.sqrt(direction.x * direction.x + direction.z * direction.z);
+
+        if (horizontalDist < 0.001) {
+            // Target directly above/below, maintain current yaw
+            return {
+                yaw: this.state.headYaw,
+                pitch: direction.y > 0 ? this.settings.maxPitch : this.settings.minPitch
+            };
+        }
+
+        // Yaw: horizontal angle (atan2 of x/z gives angle from forward direction)
+        const yaw = Math.atan2(direction.x, direction.z);
+
+        // Pitch: vertical angle (negative because looking down = negative pitch)
+        const pitch = -Math.atan2(direction.y, horizontalDist);
+
+        return { yaw, pitch };
+    }
+
+    /**
+     * Advance the motion towards a look direction
+     * @param direction Where to look, in the robot's frame
+     * @param dt Seconds since the previous update
+     */
+    public update(direction: LookDirection, dt: number): LookAtMotionOutput {
+        const desired = this.desiredAngles(direction);
+        return this.updateTowards(desired.yaw, desired.pitch, dt);
+    }
+
+    /**
+     * Advance the motion towards explicit yaw/pitch angles
+     * @param dt Seconds since the previous update
+     * @param desiredRoll Head roll to smooth towards; when omitted the roll only follows the wobble
+     */
+    public updateTowards(desiredYaw: number, desiredPitch: number, dt: number, desiredRoll?: number): LookAtMotionOutput {
+        const s = this.settings;
+        const state = this.state;
+        dt = clamp(dt, 0, MAX_DT);
+        this.time += dt;
+        const t = this.time;
+
+        const lastHeadYaw = state.headYaw;
+        const lastHeadPitch = state.headPitch;
+
+        // Smoothly move head towards desired angles, with a speed limit for drastic changes
+        state.headYaw += clamp(
+            (desiredYaw - state.headYaw) * smoothingFactor(s.headYawRate, dt),
+            -s.maxYawSpeed * dt, s.maxYawSpeed * dt
+        );
+        state.headPitch += clamp(
+            (desiredPitch - state.headPitch) * smoothingFactor(s.headPitchRate, dt),
+            -s.maxPitchSpeed * dt, s.maxPitchSpeed * dt
+        );
+
+        // Motion intensity from head angular speed
+        if (dt > 0) {
+            const headSpeed = Math.sqrt(
+                Math.pow(state.headYaw - lastHeadYaw, 2) +
+                Math.pow(state.headPitch - lastHeadPitch, 2)
+            ) / dt;
+            const targetIntensity = clamp(headSpeed / s.fullIntensitySpeed, 0, 1);
+            this.motionIntensity += (targetIntensity - this.motionIntensity) * smoothingFactor(s.motionIntensityRate, dt);
+        }
+
+        // Wobble for character - always added on top of all movements
+        const pitchWobble = computeWobble(t, s.pitchWobbleAmplitude, s.wobbleSpeed, 1.0, 0);
+        const yawWobble = computeWobble(t, s.yawWobbleAmplitude, s.wobbleSpeed, 0.7, 1.5);
+        const rollWobble = computeWobble(t, s.rollWobbleAmplitude, s.wobbleSpeed, 0.35, 3.0);
+        if (desiredRoll === undefined) {
+            state.headRoll = rollWobble;
+        } else {
+            // Roll shares the pitch smoothing and speed limit
+            state.headRoll += clamp(
+                (clamp(desiredRoll, -s.maxRoll, s.maxRoll) - state.headRoll) * smoothingFactor(s.headPitchRate, dt),
+                -s.maxPitchSpeed * dt, s.maxPitchSpeed * dt
+            );
+        }
+
+        // Clamp head pitch to mechanical limits
+        state.headPitch = clamp(state.headPitch, s.minPitch, s.maxPitch);
+
+        this.updateBodyFollow(dt);
+
+        // Clamp total head yaw
+        const maxTotalYaw = s.maxBodyYaw + s.maxHeadYaw;
+        state.headYaw = clamp(state.headYaw, -maxTotalYaw, maxTotalYaw);
+
+        this.updateAntennas(dt);
+
+        return {
+            headPose: {
+                x: 0,
+                y: 0,
+                z: 0,
+                roll: clamp(desiredRoll === undefined ? state.headRoll : state.headRoll + rollWobble, -s.maxRoll, s.maxRoll),
+                pitch: clamp(state.headPitch + pitchWobble, s.minPitch, s.maxPitch),
+                yaw: state.headYaw + yawWobble
+            },
+            bodyYaw: state.bodyYaw,
+            antennas: [state.rightAntenna, state.leftAntenna]
+        };
+    }
+
+    /**
+     * Body follows head with inertia, catching up urgently past the relative yaw limit
+     */
+    private updateBodyFollow(dt: number): void {
+        const s = this.settings;
+        const state = this.state;
+        const relativeYaw = state.headYaw - state.bodyYaw;
+
+        if (Math.abs(relativeYaw) > s.maxHeadYaw) {
+            // Past the limit: body must catch up urgently
+            const excess = Math.abs(relativeYaw) - s.maxHeadYaw;
+            state.bodyYaw += clamp(
+                Math.sign(relativeYaw) * excess * smoothingFactor(s.bodyFollowRate * 8, dt),
+                -s.maxYawSpeed * dt, s.maxYawSpeed * dt
+            );
+        } else {
+            // Progressive follow - faster when getting far
+            const rate = Math.abs(relativeYaw) > s.maxHeadYaw * 0.5 ? s.bodyFollowRate * 2 : s.bodyFollowRate;
+            state.bodyYaw += relativeYaw * smoothingFactor(rate, dt);
+        }
+
+        state.bodyYaw = clamp(state.bodyYaw, -s.maxBodyYaw, s.maxBodyYaw);
+    }
+
+    /**
+     * Antennas wobble more when the head moves and react to the looking direction
+     */
+    private updateAntennas(dt: number): void {
+        const s = this.settings;
+        const state = this.state;
+        const t = this.time;
+
+        const amplitude = s.antennaBaseAmplitude + this.motionIntensity * s.antennaMotionAmplitude;
+        const desiredLeft = computeWobble(t, amplitude, s.wobbleSpeed, 0.8, 0.5) + state.headYaw * s.antennaYawCoupling;
+        const desiredRight = computeWobble(t, amplitude, s.wobbleSpeed, 0.6, 2.5) - state.headYaw * s.antennaYawCoupling;
+
+        const factor = smoothingFactor(s.antennaRate, dt);
+        const maxStep = s.maxAntennaSpeed * dt;
+        state.leftAntenna += clamp((desiredLeft - state.leftAntenna) * factor, -maxStep, maxStep);
+        state.rightAntenna += clamp((desiredRight - state.rightAntenna) * factor, -maxStep, maxStep);
+
+        state.leftAntenna = clamp(state.leftAntenna, -s.maxAntenna, s.maxAntenna);
+        state.rightAntenna = clamp(state.rightAntenna, -s.maxAntenna, s.maxAntenna);
+    }
+}
+
+/** Clamp a value between min and max */
+function clamp(val: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, val));
+}
@@ -0,0 +1,189 @@
+import {XYZRPYPose} from "./DaemonInterface"
+
+/**
+ * One streamed target with the time it was sent, relative to the start of the recording.
+ */
+export interface MotionSample {
+    time: number; // Seconds since the recording started
+    headPose: XYZRPYPose;
+    bodyYaw: number;
+    antennas: [number, number]; // [right, left] in radians
+}
+
+/**
+ * A recorded session of streamed targets, ordered by time.
+ */
+export interface MotionRecording {
+    description: string;
+    samples: MotionSample[];
+}
+
+/**
+ * Length of a recording in seconds
+ */
+export function getRecordingDuration(recording: MotionRecording): number {
+    const samples = recording.samples;
+    return samples.length > 0 ? samples[samples.length - 1].time : 0;
+}
+
+/**
+ * Keep the samples between start and end (seconds), shifted so the result starts at 0
+ */
+export function trimRecording(recording: MotionRecording, start: number, end: number): MotionRecording {
+    const from = Math.max(0, start);
+    const to = Math.max(from, end);
+    return {
+        description: recording.description,
+        samples: recording.samples
+            .filter((sample) => sample.time >= from && sample.time <= to)
+            .map((sample) => ({...sample, time: sample.time - from}))
+    };
+}
+
+/**
+ * Change the playback speed of a recording (2 = twice as fast)
+ */
+export function retimeRecording(recording: MotionRecording, speed: number): MotionRecording {
+    const factor = 1 / Math.max(0.01, speed);
+    return {
+        description: recording.description,
+        samples: recording.samples.map((sample) => ({...sample, time: sample.time * factor}))
+    };
+}
+
+/**
+ * Interpolated sample at the given time, clamped to the recording's range, or null if it is empty
+ */
+export function sampleRecording(recording: MotionRecording, time: number): MotionSample | null {
+    const samples = recording.samples;
+    if (samples.length === 0) {
+        return null;
+    }
+    if (time <= samples[0].time) {
+        return samples[0];
+    }
+    if (time >= samples[samples.length - 1].time) {
+        return samples[samples.length - 1];
+    }
+
+    // Binary search for the last sample at or before the time
+    let low = 0;
+    let high = samples.length - 1;
+    while (high - low > 1) {
+        const mid = (low + high) >> 1;
+        if (samples[mid].time <= time) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    const a = samples[low];
+    const b = samples[high];
+    const t = b.time > a.time ? (time - a.time) / (b.time - a.time) : 0;
+    return {
+        time: time,
+        headPose: {
+            x: lerp(a.headPose.x, b.headPose.x, t),
+            y: lerp(a.headPose.y, b.headPose.y, t),
+            z: lerp(a.headPose.z, b.headPose.z, t),
+            roll: lerp(a.headPose.roll, b.headPose.roll, t),
+            pitch: lerp(a.headPose.pitch, b.headPose.pitch, t),
+            yaw: lerp(a.headPose.yaw, b.headPose.yaw, t)
+        },
+        bodyYaw: lerp(a.bodyYaw, b.bodyYaw, t),
+        antennas: [lerp(a.antennas[0], b.antennas[0], t), lerp(a.antennas[1], b.antennas[1], t)]
+    };
+}
+
+// ---------------------------------------------------------------------------------------------
+// Recorded-move dataset format
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Serialize to the daemon's recorded-move format:
+ * {"description", "time": [...], "set_target_data": [{"head": 4x4 pose matrix, "antennas", "body_yaw"}]}
+ */
+export function serializeMotionRecording(recording: MotionRecording): string {
+    return JSON.stringify({
+        description: recording.description,
+        time: recording.samples.map((sample) => round(sample.time)),
+        set_target_data: recording.samples.map((sample) => ({
+            head: poseToMatrix(sample.headPose).map((row) => row.map(round)),
+            antennas: [round(sample.antennas[0]), round(sample.antennas[1])],
+            body_yaw: round(sample.bodyYaw)
+        }))
+    });
+}
+
+/**
+ * Parse a recording in the daemon's recorded-move format
+ * @throws Error if the JSON is invalid or the time and target lists don't match
+ */
+export function parseMotionRecordingJson(json: string): MotionRecording {
+    const data = JSON.parse(json);
+    if (!data || !Array.isArray(data.time) || !Array.isArray(data.set_target_data)) {
+        throw new Error(`Recording needs "time" and "set_target_data" arrays`);
+    }
+    if (data.time.length !== data.set_target_data.length) {
+        throw new Error(`Recording has ${data.time.length} times but ${data.set_target_data.length} targets`);
+    }
+    return {
+        description: typeof data.description === "string" ? data.description : "",
+        samples: data.set_target_data.map((target: any, index: number) => {
+            if (!target || !Array.isArray(target.head) || target.head.length < 3) {
+                throw new Error(`Recording target ${index} needs a 4x4 "head" matrix`);
+            }
+            const antennas = Array.isArray(target.antennas) ? target.antennas : [];
+            return {
+                time: numberOr(data.time[index], 0),
+                headPose: matrixToPose(target.head),
+                bodyYaw: numberOr(target.body_yaw, 0),
+                antennas: [numberOr(antennas[0], 0), numberOr(antennas[1], 0)]
+            };
+        })
+    };
+}
+
+/**
+ * Convert a pose to a row-major 4x4 homogeneous matrix (rotation = Rz(yaw) * Ry(pitch) * Rx(roll))
+ */
+export function poseToMatrix(pose: XYZRPYPose): number[][] {
+    const cr = Math.cos(pose.roll), sr = Math.sin(pose.roll);
+    const cp = Math.cos(pose.pitch), sp = Math.sin(pose.pitch);
+    const cy = Math.cos(pose.yaw), sy = Math.sin(pose.yaw);
+    return [
+        [cy * cp, cy * sp * sr - sy * cr, cy * sp * cr + sy * sr, pose.x],
+        [sy * cp, sy * sp * sr + cy * cr, sy * sp * cr - cy * sr, pose.y],
+        [-sp, cp * sr, cp * cr, pose.z],
+        [0, 0, 0, 1]
+    ];
+}
+
+/**
+ * Convert a row-major 4x4 homogeneous matrix back to a pose
+ */
+export function matrixToPose(matrix: number[][]): XYZRPYPose {
+    const m = (row: number, col: number): number => numberOr(matrix[row] && matrix[row][col], row === col ? 1 : 0);
+    return {
+        x: m(0, 3),
+        y: m(1, 3),
+        z: m(2, 3),
+        roll: Math.atan2(m(2, 1), m(2, 2)),
+        pitch: Math.asin(Math.max(-1, Math.min(1, -m(2, 0)))),
+        yaw: Math.atan2(m(1, 0), m(0, 0))
+    };
+}
+
+function lerp(a: number, b: number, t: number): number {
+    return a + (b - a) * t;
+}
+
+/** Round to 5 decimals to keep stored recordings compact */
+function round(value: number): number {
+    return Math.round(value * 100000) / 100000;
+}
+
+function numberOr(value: any, fallback: number): number {
+    return typeof value === "number" && isFinite(value) ? value : fallback;
+}
@@ -0,0 +1,391 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {MoveUUID} from "./DaemonInterface"
+import {ReachyMiniController} from "./ReachyMiniController"
+import {RobotAudio} from "./RobotAudio"
+import {RobotClaim} from "./RobotClaim"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility, setText} from "./UIPanel"
+
+/**
+ * One row of the browser: a move and the dataset it belongs to.
+ */
+interface MoveEntry {
+    datasetName: string;
+    moveName: string;
+}
+
+/**
+ * In-AR browser for the recorded-move datasets: page through or search the moves and tap one to play it.
+ * A move only starts while the controller is Idle, and takes the robot from its idle loop until it ends.
+ */
+@component
+export class MoveBrowserPanel extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("Controller of the same robot, paused while a move from the browser plays")
+    private controller!: ReachyMiniController;
+
+    @input
+    @hint("UIFrameAnimator of the panel's frame, used to show/hide the browser")
+    private frameAnimator!: UIFrameAnimator;
+
+    @input
+    @hint("Recorded-move datasets to browse")
+    private datasetNames: string[] = [
+        "pollen-robotics/reachy-mini-emotions-library",
+        "pollen-robotics/reachy-mini-dances-library"
+    ];
+
+    @input
+    @hint("Optional button toggling the browser panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Button cycling through the configured datasets")
+    private datasetButton!: RectangleButton;
+
+    @input
+    @hint("Text showing the selected dataset")
+    private datasetLabel!: Text;
+
+    @input
+    @hint("One button per visible row; the page size is the number of buttons")
+    private moveButtons: RectangleButton[] = [];
+
+    @input
+    @hint("Text labels for the row buttons, in the same order")
+    private moveLabels: Text[] = [];
+
+    @input
+    private previousPageButton!: RectangleButton;
+
+    @input
+    private nextPageButton!: RectangleButton;
+
+    @input
+    @hint("Text showing the current page (e.g. 2 / 5)")
+    private pageLabel!: Text;
+
+    @input
+    @hint("Button opening the keyboard to filter moves by name")
+    private searchButton!: RectangleButton;
+
+    @input
+    @hint("Text showing the current search filter")
+    private searchLabel!: Text;
+
+    @input
+    @hint("Button stopping the move started from this panel")
+    private stopButton!: RectangleButton;
+
+    @input
+    @hint("Text showing loading / running status")
+    private statusLabel!: Text;
+
+    @input
+    @hint("Optional RobotAudio playing the cue attached to each move (move:<moveName>)")
+    private robotAudio: RobotAudio;
+
+    private selectedDatasetIndex: number = 0;
+    private movesByDataset: Map<string, string[]> = new Map<string, string[]>();
+    private filteredMoves: MoveEntry[] = [];
+    private searchQuery: string = "";
+    private pageIndex: number = 0;
+    private visibility: PanelVisibility;
+    private isLoading: boolean = false;
+
+    private playingMove: MoveEntry | null = null;
+    private playingMoveUuid: string | null = null;
+    private isStartingMove: boolean = false;
+    private robotClaim: RobotClaim;
+    private playStartTime: number = 0;
+    private lastRunningCheckTime: number = 0;
+    private runningCheckInFlight: boolean = false;
+    private lastRunningCheckError: string | null = null; // Logged once until the check succeeds again
+    private readonly RUNNING_CHECK_INTERVAL: number = 0.5; // Seconds between getRunningMoves polls
+
+    onAwake() {
+        this.robotClaim = new RobotClaim(this.controller);
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        if (this.datasetButton) {
+            this.datasetButton.onTriggerUp.add(() => {
+                this.selectDataset((this.selectedDatasetIndex + 1) % Math.max(1, this.datasetNames.length));
+            });
+        }
+        if (this.previousPageButton) {
+            this.previousPageButton.onTriggerUp.add(() => this.setPage(this.pageIndex - 1));
+        }
+        if (this.nextPageButton) {
+            this.nextPageButton.onTriggerUp.add(() => this.setPage(this.pageIndex + 1));
+        }
+        if (this.searchButton) {
+            this.searchButton.onTriggerUp.add(() => this.openSearchKeyboard());
+        }
+        if (this.stopButton) {
+            this.stopButton.onTriggerUp.add(() => this.stopPlayingMove());
+        }
+        this.moveButtons.forEach((button, row) => {
+            button.onTriggerUp.add(() => this.playRow(row));
+        });
+
+        this.createEvent("UpdateEvent").bind(() => {
+            if (this.robotClaim.wasTakenOver() && this.playingMoveUuid) {
+                this.stopPlayingMove(); // Another mode took the robot over
+            } else if (this.playingMoveUuid) {
+                this.updateRunningIndicator();
+            }
+        });
+
+        // Load the first dataset once the scene has started
+        this.createEvent("OnStartEvent").bind(() => {
+            this.selectDataset(0);
+        });
+
+        this.renderPage();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the browser, loading the selected dataset on first show
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        if (visible && !this.movesByDataset.has(this.getSelectedDataset())) {
+            this.selectDataset(this.selectedDatasetIndex);
+        }
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Select a dataset and load its moves if not cached yet
+     */
+    public async selectDataset(index: number): Promise<void> {
+        if (this.datasetNames.length === 0) {
+            this.setStatus("No datasets configured");
+            return;
+        }
+        this.selectedDatasetIndex = index;
+        const datasetName = this.getSelectedDataset();
+        setText(this.datasetLabel, this.shortDatasetName(datasetName));
+
+        if (!this.movesByDataset.has(datasetName)) {
+            await this.loadDataset(datasetName);
+        }
+        if (datasetName === this.getSelectedDataset()) {
+            this.applyFilter();
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Loading / filtering
+    // -----------------------------------------------------------------------------------------
+
+    private async loadDataset(datasetName: string): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.listRecordedMoves) {
+            this.setStatus("Daemon not available");
+            return;
+        }
+
+        this.isLoading = true;
+        this.setStatus("Loading moves...");
+        try {
+            const moves: string[] = await daemon.listRecordedMoves(datasetName);
+            this.movesByDataset.set(datasetName, moves.slice().sort());
+            this.setStatus(`${moves.length} moves`);
+        } catch (error) {
+            print(`MoveBrowserPanel: Error listing moves for ${datasetName}: ${error}`);
+            this.setStatus("Could not load moves");
+        } finally {
+            this.isLoading = false;
+        }
+    }
+
+    private applyFilter(): void {
+        const datasetName = this.getSelectedDataset();
+        const moves = this.movesByDataset.get(datasetName) ?? [];
+        const query = this.searchQuery.trim().toLowerCase();
+
+        this.filteredMoves = moves
+            .filter((moveName) => query.length === 0 || moveName.toLowerCase().indexOf(query) >= 0)
+            .map((moveName) => ({datasetName: datasetName, moveName: moveName}));
+        this.pageIndex = 0;
+        this.renderPage();
+    }
+
+    private openSearchKeyboard(): void {
+        const options = new TextInputSystem.KeyboardOptions();
+        options.enablePreview = true;
+        options.keyboardType = TextInputSystem.KeyboardType.Text;
+        options.returnKeyType = TextInputSystem.ReturnKeyType.Search;
+        options.initialText = this.searchQuery;
+        options.onTextChanged = (text: string) => {
+            this.searchQuery = text;
+            setText(this.searchLabel, text.length > 0 ? text : "Search");
+            this.applyFilter();
+        };
+        options.onReturnKeyPressed = () => {
+            global.textInputSystem.dismissKeyboard();
+        };
+        global.textInputSystem.requestKeyboard(options);
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Paging
+    // -----------------------------------------------------------------------------------------
+
+    private getPageSize(): number {
+        return Math.max(1, this.moveButtons.length);
+    }
+
+    private getPageCount(): number {
+        return Math.max(1, Math.ceil(this.filteredMoves.length / this.getPageSize()));
+    }
+
+    private setPage(pageIndex: number): void {
+        this.pageIndex = Math.max(0, Math.min(this.getPageCount() - 1, pageIndex));
+        this.renderPage();
+    }
+
+    private renderPage(): void {
+        const pageSize = this.getPageSize();
+        const start = this.pageIndex * pageSize;
+
+        this.moveButtons.forEach((button, row) => {
+            const entry = this.filteredMoves[start + row];
+            button.getSceneObject().enabled = entry !== undefined;
+            setText(this.moveLabels[row], entry ? entry.moveName : "");
+        });
+
+        setText(this.pageLabel, `${this.pageIndex + 1} / ${this.getPageCount()}`);
+        if (this.previousPageButton) {
+            this.previousPageButton.getSceneObject().enabled = this.pageIndex > 0;
+        }
+        if (this.nextPageButton) {
+            this.nextPageButton.getSceneObject().enabled = this.pageIndex < this.getPageCount() - 1;
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Playback
+    // -----------------------------------------------------------------------------------------
+
+    private async playRow(row: number): Promise<void> {
+        const entry = this.filteredMoves[this.pageIndex * this.getPageSize() + row];
+        const daemon = this.daemonInterface as any;
+        if (!entry || !daemon || !daemon.playRecordedMove || this.isLoading || this.isStartingMove) {
+            return;
+        }
+        this.isStartingMove = true;
+
+        try {
+            // Only one move from the browser at a time; keep the robot for the next one
+            await this.stopPlayingMove(false);
+            if (!(await this.robotClaim.claim())) {
+                this.setStatus("Return the robot to idle to play moves");
+                return;
+            }
+            this.setStatus(`Starting ${entry.moveName}...`);
+            const uuid: string = await daemon.playRecordedMove(entry.datasetName, entry.moveName);
+            this.playingMove = entry;
+            this.playingMoveUuid = uuid;
+            this.playStartTime = getTime();
+            this.lastRunningCheckTime = getTime();
+            print(`MoveBrowserPanel: Playing ${entry.moveName} (${uuid})`);
+            if (this.robotAudio) {
+                this.robotAudio.playCue(`move:${entry.moveName}`);
+            }
+        } catch (error) {
+            print(`MoveBrowserPanel: Error playing ${entry.moveName}: ${error}`);
+            this.setStatus(`Could not play ${entry.moveName}`);
+            this.robotClaim.release();
+        } finally {
+            this.isStartingMove = false;
+        }
+    }
+
+    /**
+     * Stop the move started from this panel
+     * @param releaseRobot Hand the robot back to the controller, false when another move follows
+     */
+    private async stopPlayingMove(releaseRobot: boolean = true): Promise<void> {
+        const uuid = this.playingMoveUuid;
+        if (!uuid) {
+            if (releaseRobot) {
+                this.robotClaim.release();
+            }
+            return;
+        }
+        this.clearPlayingMove("Stopped", releaseRobot);
+
+        const daemon = this.daemonInterface as any;
+        try {
+            await daemon.stopMove(uuid);
+        } catch (error) {
+            print(`MoveBrowserPanel: Error stopping move ${uuid}: ${error}`);
+        }
+    }
+
+    /**
+     * Show elapsed time for the playing move and detect when it finishes
+     */
+    private updateRunningIndicator(): void {
+        const elapsed = getTime() - this.playStartTime;
+        this.setStatus(`▶ ${this.playingMove.moveName}  ${elapsed.toFixed(1)}s`);
+
+        if (this.runningCheckInFlight || getTime() - this.lastRunningCheckTime < this.RUNNING_CHECK_INTERVAL) {
+            return;
+        }
+        this.lastRunningCheckTime = getTime();
+        this.runningCheckInFlight = true;
+
+        const uuid = this.playingMoveUuid;
+        const daemon = this.daemonInterface as any;
+        daemon.getRunningMoves().then((runningMoves: MoveUUID[]) => {
+            this.lastRunningCheckError = null;
+            if (this.playingMoveUuid === uuid && !runningMoves.some((move) => move.uuid === uuid)) {
+                this.clearPlayingMove("Finished");
+            }
+        }).catch((error: any) => {
+            if (`${error}` !== this.lastRunningCheckError) {
+                this.lastRunningCheckError = `${error}`;
+                print(`MoveBrowserPanel: Error checking running moves: ${error}`);
+            }
+        }).finally(() => {
+            this.runningCheckInFlight = false;
+        });
+    }
+
+    private clearPlayingMove(status: string, releaseRobot: boolean = true): void {
+        const moveName = this.playingMove ? this.playingMove.moveName : "";
+        this.playingMove = null;
+        this.playingMoveUuid = null;
+        this.setStatus(`${status} ${moveName}`);
+        if (releaseRobot) {
+            this.robotClaim.release();
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private getSelectedDataset(): string {
+        return this.datasetNames[this.selectedDatasetIndex] ?? "";
+    }
+
+    /** Strip the owner prefix and "reachy-mini-" for display (pollen-robotics/reachy-mini-dances-library -> dances-library) */
+    private shortDatasetName(datasetName: string): string {
+        const name = datasetName.substring(datasetName.lastIndexOf("/") + 1);
+        return name.replace(/^reachy-mini-/, "");
+    }
+
+    private setStatus(status: string): void {
+        setText(this.statusLabel, status);
+    }
+}
@@ -0,0 +1,293 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {Slider} from "SpectaclesUIKit.lspkg/Scripts/Components/Slider/Slider"
+import {
+    extractPersonality,
+    parsePersonalityPresets,
+    PERSONALITY_PARAMETERS,
+    PERSONALITY_PRESETS,
+    PersonalityParameter,
+    PersonalityProfile,
+    PersonalityValues,
+    serializePersonalityPresets
+} from "./PersonalityProfile"
+import {DEFAULT_LOOK_AT_MOTION_SETTINGS} from "./LookAtMotion"
+import {ReachyMiniController} from "./ReachyMiniController"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility} from "./UIPanel"
+
+/**
+ * Live tuning of the robot's look-at personality: sliders edit the values while the robot moves,
+ * presets are saved to persistent storage and the default preset is applied at startup.
+ */
+@component
+export class PersonalityPanel extends BaseScriptComponent {
+    @input
+    @hint("Controller whose look-at motion is tuned")
+    private controller!: ReachyMiniController;
+
+    @input
+    @hint("Optional UIFrameAnimator of the panel's frame, toggled by the open button")
+    private frameAnimator: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the personality panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Sliders editing one personality value each (see sliderParameters)")
+    private sliders: Slider[] = [];
+
+    @input
+    @hint("Text labels for the sliders, in the same order")
+    private sliderLabels: Text[] = [];
+
+    @input
+    @hint("Value edited by each slider, in the same order (names from PERSONALITY_PARAMETERS)")
+    private sliderParameters: string[] = [
+        "headYawRate",
+        "bodyFollowRate",
+        "maxYawSpeed",
+        "pitchWobbleAmplitude",
+        "antennaMotionAmplitude",
+        "wobbleSpeed"
+    ];
+
+    @input
+    @hint("Button cycling through the presets")
+    private presetButton!: RectangleButton;
+
+    @input
+    @hint("Text showing the selected preset")
+    private presetLabel!: Text;
+
+    @input
+    @hint("Button saving the slider values into the selected preset")
+    private saveButton: RectangleButton;
+
+    @input
+    @hint("Button making the selected preset the one applied at startup")
+    private defaultButton: RectangleButton;
+
+    @input
+    @hint("Button discarding slider edits (built-in presets return to their original values)")
+    private resetButton: RectangleButton;
+
+    @input
+    @hint("Text showing save status")
+    private statusLabel: Text;
+
+    @input
+    @hint("Persistent storage key the presets are saved under (empty = don't persist)")
+    private storageKey: string = "reachy_personality";
+
+    private presets: PersonalityProfile[] = [];
+    private defaultName: string = "curious";
+    private selectedIndex: number = 0;
+    private values: PersonalityValues = extractPersonality(DEFAULT_LOOK_AT_MOTION_SETTINGS);
+    private isDirty: boolean = false;
+    private isSyncingUi: boolean = false; // Ignore slider events while showing preset values
+    private visibility: PanelVisibility;
+
+    onAwake() {
+        this.loadPresets();
+        const defaultIndex = this.presets.findIndex((preset) => preset.name === this.defaultName);
+        this.selectPreset(defaultIndex >= 0 ? defaultIndex : 0);
+
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        this.sliders.forEach((slider, index) => {
+            if (slider) {
+                slider.onValueChange.add((value: number) => this.handleSliderChanged(index, value));
+            }
+        });
+        if (this.presetButton) {
+            this.presetButton.onTriggerUp.add(() => this.selectPreset((this.selectedIndex + 1) % this.presets.length));
+        }
+        if (this.saveButton) {
+            this.saveButton.onTriggerUp.add(() => this.saveSelectedPreset());
+        }
+        if (this.defaultButton) {
+            this.defaultButton.onTriggerUp.add(() => {
+                this.defaultName = this.presets[this.selectedIndex].name;
+                this.persist();
+                this.renderPreset();
+                this.setStatus(`${this.defaultName} applied at startup`);
+            });
+        }
+        if (this.resetButton) {
+            this.resetButton.onTriggerUp.add(() => this.resetSelectedPreset());
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the panel
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Apply a preset by name
+     * @returns false if there is no preset with that name
+     */
+    public applyPreset(name: string): boolean {
+        const index = this.presets.findIndex((preset) => preset.name === name);
+        if (index < 0) {
+            return false;
+        }
+        this.selectPreset(index);
+        return true;
+    }
+
+    public getPresetNames(): string[] {
+        return this.presets.map((preset) => preset.name);
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Editing
+    // -----------------------------------------------------------------------------------------
+
+    private selectPreset(index: number): void {
+        this.selectedIndex = index;
+        this.values = extractPersonality(this.presets[index].values);
+        this.isDirty = false;
+        this.applyValues();
+        this.renderPreset();
+        this.renderSliders();
+    }
+
+    private handleSliderChanged(index: number, value: number): void {
+        const parameter = this.getSliderParameter(index);
+        if (this.isSyncingUi || !parameter) {
+            return;
+        }
+        const t = Math.max(0, Math.min(1, value));
+        (this.values as any)[parameter.key] = parameter.min + t * (parameter.max - parameter.min);
+        this.isDirty = true;
+        this.applyValues();
+        this.renderPreset();
+        this.renderSliderLabel(index);
+    }
+
+    private saveSelectedPreset(): void {
+        const preset = this.presets[this.selectedIndex];
+        preset.values = extractPersonality(this.values);
+        this.isDirty = false;
+        this.persist();
+        this.renderPreset();
+        this.setStatus(`Saved ${preset.name}`);
+    }
+
+    /**
+     * Discard unsaved edits, or restore a built-in preset's original values when there are none
+     */
+    private resetSelectedPreset(): void {
+        const preset = this.presets[this.selectedIndex];
+        const builtIn = PERSONALITY_PRESETS.find((candidate) => candidate.name === preset.name);
+        if (!this.isDirty && builtIn) {
+            preset.values = extractPersonality(builtIn.values);
+            this.persist();
+            this.setStatus(`Restored original ${preset.name}`);
+        } else {
+            this.setStatus(`Discarded edits`);
+        }
+        this.selectPreset(this.selectedIndex);
+    }
+
+    private applyValues(): void {
+        if (this.controller) {
+            this.controller.setPersonality(this.values);
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Persistence
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Load the saved presets, adding any built-in preset they don't contain
+     */
+    private loadPresets(): void {
+        this.presets = [];
+        if (this.storageKey) {
+            const store = global.persistentStorageSystem.store;
+            if (store.has(this.storageKey)) {
+                try {
+                    const saved = parsePersonalityPresets(store.getString(this.storageKey));
+                    this.presets = saved.presets;
+                    this.defaultName = saved.defaultName;
+                } catch (error) {
+                    print(`PersonalityPanel: Invalid saved presets, using built-in ones: ${error}`);
+                }
+            }
+        }
+        PERSONALITY_PRESETS.forEach((builtIn) => {
+            if (!this.presets.some((preset) => preset.name === builtIn.name)) {
+                this.presets.push({name: builtIn.name, values: extractPersonality(builtIn.values)});
+            }
+        });
+    }
+
+    private persist(): void {
+        if (!this.storageKey) {
+            return;
+        }
+        global.persistentStorageSystem.store.putString(this.storageKey, serializePersonalityPresets(this.presets, this.defaultName));
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private getSliderParameter(index: number): PersonalityParameter | null {
+        const key = this.sliderParameters[index];
+        return PERSONALITY_PARAMETERS.find((parameter) => parameter.key === key) ?? null;
+    }
+
+    private renderSliders(): void {
+        this.isSyncingUi = true;
+        try {
+            this.sliders.forEach((slider, index) => {
+                const parameter = this.getSliderParameter(index);
+                if (slider && parameter) {
+                    slider.currentValue = (this.values[parameter.key] - parameter.min) / (parameter.max - parameter.min);
+                }
+                this.renderSliderLabel(index);
+            });
+        } finally {
+            this.isSyncingUi = false;
+        }
+    }
+
+    private renderSliderLabel(index: number): void {
+        const parameter = this.getSliderParameter(index);
+        const label = this.sliderLabels[index];
+        if (!label) {
+            return;
+        }
+        if (!parameter) {
+            label.text = `Unknown: ${this.sliderParameters[index]}`;
+            return;
+        }
+        const value = this.values[parameter.key] * parameter.displayScale;
+        label.text = `${parameter.label}: ${value.toFixed(value >= 10 ? 0 : 2)}${parameter.unit}`;
+    }
+
+    private renderPreset(): void {
+        if (!this.presetLabel) {
+            return;
+        }
+        const preset = this.presets[this.selectedIndex];
+        const isDefault = preset.name === this.defaultName ? " (default)" : "";
+        this.presetLabel.text = `${preset.name}${isDefault}${this.isDirty ? " *" : ""}`;
+    }
+
+    private setStatus(status: string): void {
+        if (this.statusLabel) {
+            this.statusLabel.text = status;
+        }
+    }
+}
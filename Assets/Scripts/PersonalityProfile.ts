@@ -0,0 +1,163 @@
+import {DEFAULT_LOOK_AT_MOTION_SETTINGS, LookAtMotionSettings, perFrameToRate} from "./LookAtMotion"
+
+/** Version written by serializePersonalityPresets */
+export const PERSONALITY_FORMAT_VERSION: number = 1;
+
+const DEG: number = Math.PI / 180;
+
+/**
+ * The character part of the look-at motion: smoothing, speeds and wobble.
+ * The mechanical limits stay with the robot (see withKinematicLimits).
+ */
+export type PersonalityValues = Omit<LookAtMotionSettings, "minPitch" | "maxPitch" | "maxHeadYaw" | "maxBodyYaw" | "maxAntenna" | "maxRoll">;
+
+/**
+ * A named set of personality values.
+ */
+export interface PersonalityProfile {
+    name: string;
+    values: PersonalityValues;
+}
+
+/**
+ * Editable range of one personality value. Values are shown multiplied by displayScale.
+ */
+export interface PersonalityParameter {
+    key: keyof PersonalityValues;
+    label: string;
+    min: number;
+    max: number;
+    displayScale: number;
+    unit: string;
+}
+
+export const PERSONALITY_PARAMETERS: PersonalityParameter[] = [
+    {key: "headYawRate", label: "Head yaw smoothing", min: 0.5, max: 15, displayScale: 1, unit: "/s"},
+    {key: "headPitchRate", label: "Head pitch smoothing", min: 0.5, max: 15, displayScale: 1, unit: "/s"},
+    {key: "bodyFollowRate", label: "Body smoothing", min: 0.5, max: 15, displayScale: 1, unit: "/s"},
+    {key: "antennaRate", label: "Antenna smoothing", min: 0.5, max: 15, displayScale: 1, unit: "/s"},
+    {key: "motionIntensityRate", label: "Intensity smoothing", min: 0.5, max: 15, displayScale: 1, unit: "/s"},
+    {key: "maxYawSpeed", label: "Max yaw speed", min: 30 * DEG, max: 400 * DEG, displayScale: 1 / DEG, unit: "°/s"},
+    {key: "maxPitchSpeed", label: "Max pitch speed", min: 20 * DEG, max: 300 * DEG, displayScale: 1 / DEG, unit: "°/s"},
+    {key: "maxAntennaSpeed", label: "Max antenna speed", min: 20 * DEG, max: 400 * DEG, displayScale: 1 / DEG, unit: "°/s"},
+    {key: "fullIntensitySpeed", label: "Full intensity speed", min: 60 * DEG, max: 600 * DEG, displayScale: 1 / DEG, unit: "°/s"},
+    {key: "pitchWobbleAmplitude", label: "Pitch wobble", min: 0, max: 15 * DEG, displayScale: 1 / DEG, unit: "°"},
+    {key: "yawWobbleAmplitude", label: "Yaw wobble", min: 0, max: 15 * DEG, displayScale: 1 / DEG, unit: "°"},
+    {key: "rollWobbleAmplitude", label: "Roll wobble", min: 0, max: 20 * DEG, displayScale: 1 / DEG, unit: "°"},
+    {key: "antennaBaseAmplitude", label: "Antenna idle motion", min: 0, max: 30 * DEG, displayScale: 1 / DEG, unit: "°"},
+    {key: "antennaMotionAmplitude", label: "Antenna motion", min: 0, max: 45 * DEG, displayScale: 1 / DEG, unit: "°"},
+    {key: "antennaYawCoupling", label: "Antenna yaw coupling", min: 0, max: 1, displayScale: 1, unit: ""},
+    {key: "wobbleSpeed", label: "Wobble speed", min: 0.05, max: 1.5, displayScale: 1, unit: ""}
+];
+
+/**
+ * Get the personality values of look-at settings (or a copy of personality values)
+ */
+export function extractPersonality(settings: PersonalityValues): PersonalityValues {
+    const values: any = {};
+    PERSONALITY_PARAMETERS.forEach((parameter) => {
+        values[parameter.key] = settings[parameter.key];
+    });
+    return values as PersonalityValues;
+}
+
+/**
+ * Copy of the settings with the personality values replaced, keeping the mechanical limits
+ */
+export function applyPersonality(settings: LookAtMotionSettings, values: PersonalityValues): LookAtMotionSettings {
+    return {...settings, ...extractPersonality(values)};
+}
+
+/** The original controller tuning */
+const CURIOUS_VALUES: PersonalityValues = extractPersonality(DEFAULT_LOOK_AT_MOTION_SETTINGS);
+
+export const PERSONALITY_PRESETS: PersonalityProfile[] = [
+    {
+        name: "calm",
+        values: {
+            ...CURIOUS_VALUES,
+            headYawRate: perFrameToRate(0.03),
+            headPitchRate: perFrameToRate(0.02),
+            bodyFollowRate: perFrameToRate(0.02),
+            antennaRate: perFrameToRate(0.015),
+            maxYawSpeed: 90 * DEG,
+            maxPitchSpeed: 60 * DEG,
+            pitchWobbleAmplitude: 3 * DEG,
+            yawWobbleAmplitude: 2 * DEG,
+            rollWobbleAmplitude: 4 * DEG,
+            antennaBaseAmplitude: 4 * DEG,
+            antennaMotionAmplitude: 10 * DEG,
+            wobbleSpeed: 0.2
+        }
+    },
+    {
+        name: "curious",
+        values: {...CURIOUS_VALUES}
+    },
+    {
+        name: "hyper",
+        values: {
+            ...CURIOUS_VALUES,
+            headYawRate: perFrameToRate(0.12),
+            headPitchRate: perFrameToRate(0.08),
+            bodyFollowRate: perFrameToRate(0.07),
+            antennaRate: perFrameToRate(0.06),
+            maxYawSpeed: 300 * DEG,
+            maxPitchSpeed: 180 * DEG,
+            maxAntennaSpeed: 240 * DEG,
+            pitchWobbleAmplitude: 8 * DEG,
+            yawWobbleAmplitude: 7 * DEG,
+            rollWobbleAmplitude: 12 * DEG,
+            antennaBaseAmplitude: 15 * DEG,
+            antennaMotionAmplitude: 35 * DEG,
+            wobbleSpeed: 0.8
+        }
+    }
+];
+
+/**
+ * Serialize presets and the name of the one applied at startup to versioned JSON.
+ */
+export function serializePersonalityPresets(presets: PersonalityProfile[], defaultName: string): string {
+    return JSON.stringify({
+        version: PERSONALITY_FORMAT_VERSION,
+        default: defaultName,
+        presets: presets.map((preset) => ({name: preset.name, values: extractPersonality(preset.values)}))
+    });
+}
+
+/**
+ * Parse presets written by serializePersonalityPresets.
+ * Missing values default to the curious preset and values are clamped to the parameter ranges.
+ * @throws Error if the JSON is invalid, from a newer format version, or has no preset list
+ */
+export function parsePersonalityPresets(json: string): {presets: PersonalityProfile[]; defaultName: string} {
+    const data = JSON.parse(json);
+    if (!data || typeof data !== "object") {
+        throw new Error(`Personality presets must be a JSON object`);
+    }
+    const version = typeof data.version === "number" ? data.version : 1;
+    if (version > PERSONALITY_FORMAT_VERSION) {
+        throw new Error(`Personality format version ${version} is newer than supported version ${PERSONALITY_FORMAT_VERSION}`);
+    }
+    if (!Array.isArray(data.presets)) {
+        throw new Error(`Personality presets need a "presets" array`);
+    }
+    const presets: PersonalityProfile[] = data.presets
+        .filter((item: any) => item && typeof item.name === "string" && item.name.length > 0)
+        .map((item: any) => {
+            const values: any = {...CURIOUS_VALUES};
+            const saved = item.values || {};
+            PERSONALITY_PARAMETERS.forEach((parameter) => {
+                const value = saved[parameter.key];
+                if (typeof value === "number" && isFinite(value)) {
+                    values[parameter.key] = Math.max(parameter.min, Math.min(parameter.max, value));
+                }
+            });
+            return {name: item.name, values: values as PersonalityValues};
+        });
+    return {
+        presets: presets,
+        defaultName: typeof data.default === "string" ? data.default : "curious"
+    };
+}
@@ -0,0 +1,294 @@
+import {KinematicLimits, REACHY_MINI_LIMITS} from "./KinematicLimits"
+import {computeWobble, LookAtMotionOutput} from "./LookAtMotion"
+
+const DEG: number = Math.PI / 180;
+
+/**
+ * Tuning for the procedural idle motion. Times in seconds, angles in radians, head height in meters.
+ */
+export interface ProceduralIdleSettings {
+    // Breathing: slow rise and fall of the head, lifting the chin slightly on each breath
+    breathingRate: number; // Breaths per second
+    breathingHeight: number;
+    breathingPitch: number;
+
+    // Sway: temporally consistent wobble (see computeWobble)
+    swaySpeed: number;
+    swayYaw: number;
+    swayPitch: number;
+    swayRoll: number;
+    antennaSway: number;
+
+    // Glances: look elsewhere for a moment, sometimes with a head tilt
+    minGlanceInterval: number;
+    maxGlanceInterval: number;
+    glanceYawRange: number; // Largest glance to either side
+    glancePitchRange: number; // Largest glance up or down
+    glanceHold: number; // Average time a glance stays at its full extent
+    glanceBodyFollow: number; // Fraction of the glance yaw taken by the body
+    tiltChance: number; // Chance a glance comes with a head tilt
+    tiltRoll: number;
+
+    // Antenna twitches
+    minTwitchInterval: number;
+    maxTwitchInterval: number;
+    twitchAngle: number;
+
+    blendDuration: number; // Time to blend from the robot's pose into the idle motion
+}
+
+export const DEFAULT_PROCEDURAL_IDLE_SETTINGS: ProceduralIdleSettings = {
+    breathingRate: 0.25,
+    breathingHeight: 0.004,
+    breathingPitch: 1.5 * DEG,
+
+    swaySpeed: 0.3,
+    swayYaw: 3 * DEG,
+    swayPitch: 2 * DEG,
+    swayRoll: 3 * DEG,
+    antennaSway: 6 * DEG,
+
+    minGlanceInterval: 3.0,
+    maxGlanceInterval: 8.0,
+    glanceYawRange: 35 * DEG,
+    glancePitchRange: 12 * DEG,
+    glanceHold: 1.5,
+    glanceBodyFollow: 0.25,
+    tiltChance: 0.4,
+    tiltRoll: 7 * DEG, // Plus swayRoll, within the 10° roll limit
+
+    minTwitchInterval: 2.0,
+    maxTwitchInterval: 6.0,
+    twitchAngle: 25 * DEG,
+
+    blendDuration: 1.0
+};
+
+/**
+ * A short offset from the idle pose that eases in, holds, and eases back out.
+ */
+interface IdleGesture {
+    startTime: number;
+    attack: number;
+    hold: number;
+    release: number;
+    yaw: number;
+    pitch: number;
+    roll: number;
+    antennas: [number, number]; // [right, left]
+}
+
+/**
+ * Procedural idle animation built from layered sines: breathing, sway, occasional glances and head tilts,
+ * and antenna twitches. Needs no recorded moves, so the robot stays alive when they can't be played.
+ * Pure and headless like LookAtMotion: time is passed in, the pose to stream comes out, clamped to the
+ * kinematic limits.
+ */
+export class ProceduralIdle {
+    private settings: ProceduralIdleSettings;
+    private limits: KinematicLimits = REACHY_MINI_LIMITS;
+    private random: () => number;
+    private startTime: number = 0;
+    private blendFrom: LookAtMotionOutput | null = null;
+    private glance: IdleGesture | null = null;
+    private twitch: IdleGesture | null = null;
+    private nextGlanceTime: number = 0;
+    private nextTwitchTime: number = 0;
+
+    constructor(settings: ProceduralIdleSettings = DEFAULT_PROCEDURAL_IDLE_SETTINGS, random: () => number = Math.random) {
+        this.settings = settings;
+        this.random = random;
+    }
+
+    public getSettings(): ProceduralIdleSettings {
+        return this.settings;
+    }
+
+    public setSettings(settings: ProceduralIdleSettings): void {
+        this.settings = settings;
+    }
+
+    public setLimits(limits: KinematicLimits): void {
+        this.limits = limits;
+    }
+
+    /**
+     * Start the idle motion, blending in from the robot's current pose when given
+     * @param now Time in seconds
+     * @param from Pose the robot is in, e.g. where a recorded move ended
+     */
+    public start(now: number, from: LookAtMotionOutput | null = null): void {
+        const s = this.settings;
+        this.startTime = now;
+        this.blendFrom = from;
+        this.glance = null;
+        this.twitch = null;
+        this.nextGlanceTime = now + this.randomBetween(s.minGlanceInterval, s.maxGlanceInterval);
+        this.nextTwitchTime = now + this.randomBetween(s.minTwitchInterval, s.maxTwitchInterval);
+    }
+
+    /**
+     * Pose to send at the given time
+     */
+    public update(now: number): LookAtMotionOutput {
+        const s = this.settings;
+        const t = now - this.startTime;
+
+        if (now >= this.nextGlanceTime) {
+            this.glance = this.createGlance(now);
+            this.nextGlanceTime = now + gestureLength(this.glance) + this.randomBetween(s.minGlanceInterval, s.maxGlanceInterval);
+        }
+        if (now >= this.nextTwitchTime) {
+            this.twitch = this.createTwitch(now);
+            this.nextTwitchTime = now + gestureLength(this.twitch) + this.randomBetween(s.minTwitchInterval, s.maxTwitchInterval);
+        }
+        const glance = this.glance ? envelope(this.glance, now) : 0;
+        const twitch = this.twitch ? envelope(this.twitch, now) : 0;
+
+        // Inhaling raises the head and lifts the chin (negative pitch)
+        const breath = Math.sin(2 * Math.PI * s.breathingRate * t);
+        const glanceYaw = this.glance ? glance * this.glance.yaw : 0;
+
+        const pose: LookAtMotionOutput = {
+            headPose: {
+                x: 0,
+                y: 0,
+                z: s.breathingHeight * breath,
+                roll: computeWobble(t, s.swayRoll, s.swaySpeed, 0.35, 3.0) + (this.glance ? glance * this.glance.roll : 0),
+                pitch: computeWobble(t, s.swayPitch, s.swaySpeed, 1.0, 0) - s.breathingPitch * breath
+                    + (this.glance ? glance * this.glance.pitch : 0),
+                yaw: computeWobble(t, s.swayYaw, s.swaySpeed, 0.7, 1.5) + glanceYaw
+            },
+            bodyYaw: glanceYaw * s.glanceBodyFollow,
+            antennas: [
+                computeWobble(t, s.antennaSway, s.swaySpeed, 0.6, 2.5) + (this.twitch ? twitch * this.twitch.antennas[0] : 0),
+                computeWobble(t, s.antennaSway, s.swaySpeed, 0.8, 0.5) + (this.twitch ? twitch * this.twitch.antennas[1] : 0)
+            ]
+        };
+
+        if (this.blendFrom && t < s.blendDuration) {
+            return this.clampToLimits(blendPose(this.blendFrom, pose, smoothStep(t / s.blendDuration)));
+        }
+        this.blendFrom = null;
+        return this.clampToLimits(pose);
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Gestures
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Look to a random side, a bit up or down, sometimes tilting the head
+     */
+    private createGlance(now: number): IdleGesture {
+        const s = this.settings;
+        const side = this.random() < 0.5 ? -1 : 1;
+        const tilt = this.random() < s.tiltChance ? (this.random() < 0.5 ? -1 : 1) * s.tiltRoll : 0;
+        return {
+            startTime: now,
+            attack: 0.35,
+            hold: s.glanceHold * this.randomBetween(0.6, 1.4),
+            release: 0.6,
+            yaw: side * s.glanceYawRange * this.randomBetween(0.4, 1.0),
+            pitch: s.glancePitchRange * this.randomBetween(-1, 1),
+            roll: tilt,
+            antennas: [0, 0]
+        };
+    }
+
+    /**
+     * Flick one antenna, or both symmetrically
+     */
+    private createTwitch(now: number): IdleGesture {
+        const s = this.settings;
+        const angle = (this.random() < 0.5 ? -1 : 1) * s.twitchAngle;
+        const which = this.random();
+        const antennas: [number, number] = which < 0.4 ? [angle, -angle] : which < 0.7 ? [angle, 0] : [0, angle];
+        return {
+            startTime: now,
+            attack: 0.08,
+            hold: 0.05,
+            release: 0.3,
+            yaw: 0,
+            pitch: 0,
+            roll: 0,
+            antennas: antennas
+        };
+    }
+
+    private clampToLimits(pose: LookAtMotionOutput): LookAtMotionOutput {
+        const limits = this.limits;
+        const bodyYaw = clamp(pose.bodyYaw, -limits.maxBodyYaw, limits.maxBodyYaw);
+        return {
+            headPose: {
+                x: clamp(pose.headPose.x, limits.minX, limits.maxX),
+                y: clamp(pose.headPose.y, limits.minY, limits.maxY),
+                z: clamp(pose.headPose.z, limits.minZ, limits.maxZ),
+                roll: clamp(pose.headPose.roll, -limits.maxRoll, limits.maxRoll),
+                pitch: clamp(pose.headPose.pitch, limits.minPitch, limits.maxPitch),
+                yaw: bodyYaw + clamp(pose.headPose.yaw - bodyYaw, -limits.maxHeadYaw, limits.maxHeadYaw)
+            },
+            bodyYaw: bodyYaw,
+            antennas: [
+                clamp(pose.antennas[0], -limits.maxAntenna, limits.maxAntenna),
+                clamp(pose.antennas[1], -limits.maxAntenna, limits.maxAntenna)
+            ]
+        };
+    }
+
+    private randomBetween(min: number, max: number): number {
+        return min + this.random() * (max - min);
+    }
+}
+
+/** Clamp a value between min and max */
+function clamp(val: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, val));
+}
+
+/** Total duration of a gesture */
+function gestureLength(gesture: IdleGesture): number {
+    return gesture.attack + gesture.hold + gesture.release;
+}
+
+/**
+ * Weight of a gesture at the given time: eases in over the attack, holds, eases out over the release
+ */
+function envelope(gesture: IdleGesture, now: number): number {
+    let t = now - gesture.startTime;
+    if (t < 0) {
+        return 0;
+    }
+    if (t < gesture.attack) {
+        return smoothStep(t / gesture.attack);
+    }
+    t -= gesture.attack;
+    if (t < gesture.hold) {
+        return 1;
+    }
+    t -= gesture.hold;
+    return t < gesture.release ? 1 - smoothStep(t / gesture.release) : 0;
+}
+
+/** Ease in and out over [0, 1] */
+function smoothStep(t: number): number {
+    const x = Math.max(0, Math.min(1, t));
+    return x * x * (3 - 2 * x);
+}
+
+/** Interpolate between two poses */
+function blendPose(from: LookAtMotionOutput, to: LookAtMotionOutput, s: number): LookAtMotionOutput {
+    const lerp = (a: number, b: number) => a + (b - a) * s;
+    return {
+        headPose: {
+            x: lerp(from.headPose.x, to.headPose.x),
+            y: lerp(from.headPose.y, to.headPose.y),
+            z: lerp(from.headPose.z, to.headPose.z),
+            roll: lerp(from.headPose.roll, to.headPose.roll),
+            pitch: lerp(from.headPose.pitch, to.headPose.pitch),
+            yaw: lerp(from.headPose.yaw, to.headPose.yaw)
+        },
+        bodyYaw: lerp(from.bodyYaw, to.bodyYaw),
+        antennas: [lerp(from.antennas[0], to.antennas[0]), lerp(from.antennas[1], to.antennas[1])]
+    };
+}
@@ -1,19 +1,73 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
 import {RoundButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RoundButton"
+import {Switch} from "SpectaclesUIKit.lspkg/Scripts/Components/Switch/Switch"
+import {SIK} from "SpectaclesInteractionKit.lspkg/SIK"
 import animate, {CancelFunction} from "SpectaclesInteractionKit.lspkg/Utils/animate"
-import {XYZRPYPose} from "./DaemonInterface"
+import {AttentionFocus, AttentionManager} from "./AttentionManager"
+import {
+    HandAttentionProvider,
+    PointAttentionProvider,
+    SoundAttentionProvider,
+    TaggedObjectAttentionProvider
+} from "./AttentionProviders"
+import {DaemonInterface, MoveUUID, XYZRPYPose} from "./DaemonInterface"
+import {LookAtMotion, LookAtMotionOutput, withKinematicLimits} from "./LookAtMotion"
+import {ConnectionStatus} from "./ConnectionMonitor"
+import {DaemonState, DaemonStatus} from "./DaemonStatus"
+import {wait} from "./Delay"
+import {DirectionOfArrival} from "./DirectionOfArrival"
+import {HandManipulation, HandSample} from "./HandManipulation"
+import {HeadTeleop, TELEOP_MOTION_SETTINGS} from "./HeadTeleop"
+import {IdleBehaviorPlaylist} from "./IdleBehaviorPlaylist"
+import {DEFAULT_IDLE_PLAYLIST, IdleBehaviorEntry, IdleBehaviorScheduler} from "./IdleBehaviorScheduler"
+import {REACHY_MINI_LIMITS} from "./KinematicLimits"
+import {applyPersonality, extractPersonality, PersonalityValues} from "./PersonalityProfile"
+import {ProceduralIdle} from "./ProceduralIdle"
+import {RobotAudio} from "./RobotAudio"
+import {
+    AnchoredRobotFrame,
+    AnchorPose,
+    fromAnchoredRobotFrame,
+    RobotFrame,
+    robotToWorldDirection,
+    toAnchoredRobotFrame,
+    worldToRobotDirection,
+    worldToRobotPoint
+} from "./RobotCalibration"
+import {RobotRegistry} from "./RobotRegistry"
+import {MotorMode, RobotStateSnapshot} from "./RobotStateSnapshot"
+import {StateMachine, TransitionContext} from "./StateMachine"
 
 enum RobotState {
     Uninitialized = "Uninitialized",
     Idle = "Idle",
-    LookAtTarget = "LookAtTarget"
+    LookAtTarget = "LookAtTarget",
+    Teleop = "Teleop",
+    HandControl = "HandControl",
+    Listening = "Listening",
+    Calibrating = "Calibrating",
+    Replaying = "Replaying",
+    Sleeping = "Sleeping"
 }
 
+/** Interactive modes, reachable from Idle, Sleeping and each other */
+const INTERACTIVE_MODES: RobotState[] = [
+    RobotState.LookAtTarget,
+    RobotState.Teleop,
+    RobotState.HandControl,
+    RobotState.Listening
+];
+
 @component
 export class ReachyMiniController extends BaseScriptComponent {
     @input("Component.ScriptComponent")
-    @hint("Reference to the DaemonInterface component (singleton)")
+    @hint("Reference to the DaemonInterface component of the robot (ignored when robotId is set)")
     private daemonInterface!: ScriptComponent;
 
+    @input
+    @hint("Optional id of the robot to control in the RobotRegistry, bound once that robot registers")
+    private robotId: string = "";
+
     @input
     @hint("RoundButton component from Spectacles UI Kit (should be set to toggleable mode)")
     private roundButton!: RoundButton;
@@ -26,63 +80,200 @@ export class ReachyMiniController extends BaseScriptComponent {
     @hint("Offset from button origin for controlled entity position (in local space)")
     private entityOffset: vec3 = new vec3(0, 15, 0);
 
+    @input
+    @hint("Glance between the controlled entity, the wearer, hands, tagged objects and sounds instead of fixating the entity")
+    private useAttention: boolean = false;
+
+    @input
+    @hint("Camera standing for the wearer's head in attention mode (defaults to the teleop camera)")
+    private attentionCamera: SceneObject;
+
+    @input
+    @hint("Let the wearer's tracked hands draw the robot's attention")
+    private attendToHands: boolean = true;
+
+    @input
+    @hint("Let speech draw the robot's attention (polled at doaRateHz while looking around)")
+    private attendToSound: boolean = true;
+
+    @input
+    @hint("Optional idle behavior playlist (defaults to looping attentive2)")
+    private idlePlaylist: IdleBehaviorPlaylist;
+
+    @input
+    @hint("Animate the robot procedurally (breathing, glances, antenna twitches) between recorded idle moves and while they fail to play")
+    private useProceduralIdle: boolean = true;
+
+    @input
+    @hint("Play the recorded moves of the idle playlist (off = procedural idle only)")
+    private playRecordedIdleMoves: boolean = true;
+
+    @input
+    @hint("Optional RobotAudio playing the cues attached to state transitions and idle moves")
+    private robotAudio: RobotAudio;
+
+    @input
+    @hint("Optional Switch toggling motor torque (on = enabled, off = disabled)")
+    private motorSwitch: Switch;
+
+    @input
+    @hint("Optional Switch toggling compliant mode (on = gravity compensation, off = enabled)")
+    private complianceSwitch: Switch;
+
+    @input
+    @hint("Optional Switch putting the robot to sleep (on) or waking it up (off)")
+    private sleepSwitch: Switch;
+
+    @input
+    @hint("Optional Switch entering head teleoperation (on) or returning to idle (off)")
+    private teleopSwitch: Switch;
+
+    @input
+    @hint("Camera whose orientation is mirrored onto the robot in teleop")
+    private teleopCamera: SceneObject;
+
+    @input
+    @hint("Optional deadman Switch: the robot only follows the wearer's head while it is on")
+    private deadmanSwitch: Switch;
+
+    @input
+    @hint("Optional button making the wearer's current head orientation the robot's neutral pose")
+    private recenterButton: RectangleButton;
+
+    @input
+    @hint("Scale applied to the wearer's head angles in teleop (1 = mirror 1:1)")
+    private teleopGain: number = 1.0;
+
+    @input
+    @hint("Optional Switch entering direct hand manipulation (on) or returning to idle (off)")
+    private handControlSwitch: Switch;
+
+    @input
+    @hint("Hand used for direct manipulation: left or right")
+    private manipulationHand: string = "right";
+
+    @input
+    @hint("Optional Switch entering the listening behavior (on) or returning to idle (off)")
+    private listenSwitch: Switch;
+
+    @input
+    @hint("Rate in Hz at which the sound direction is polled while listening")
+    private doaRateHz: number = 10;
+
+    @input
+    @hint("Optional SceneObject shown briefly in the direction a sound came from")
+    private soundIndicator: SceneObject;
+
+    @input
+    @hint("Distance of the sound indicator from the robot's head (cm)")
+    private soundIndicatorDistance: number = 20;
+
+    @input
+    @hint("Seconds the sound indicator stays visible")
+    private soundIndicatorDuration: number = 1.5;
+
+    @input
+    @hint("Disable motor torque at the end of the shutdown sequence run when the lens closes")
+    private disableMotorsOnShutdown: boolean = false;
+
     private currentAnimation: CancelFunction | null = null;
-    private currentState: RobotState = RobotState.Uninitialized;
-    private attentive2MoveUuid: string | null = null;
-    private readonly ATTENTIVE2_DATASET_NAME: string = "pollen-robotics/reachy-mini-emotions-library";
-    private readonly ATTENTIVE2_MOVE_NAME: string = "attentive2";
-    private isAttentive2Looping: boolean = false;
+    private stateMachine: StateMachine<RobotState> = this.createStateMachine();
+    private isWaitingForRobot: boolean = false; // robotId is set but not registered yet
+    private needsWakeUp: boolean = false; // Left Sleeping while disconnected, wake up on reconnect
+    private needsSleep: boolean = false; // Entered Sleeping while disconnected, go to sleep on reconnect
+    private idleScheduler: IdleBehaviorScheduler | null = null;
+    private idleMoveEntry: IdleBehaviorEntry | null = null;
+    private idleMoveUuid: string | null = null;
+    private isIdleLooping: boolean = false;
+    private isIdleMoveStarting: boolean = false;
+    private isCheckingIdleMove: boolean = false;
+    private nextIdleMoveTime: number = 0;
+    private readonly IDLE_RETRY_DELAY: number = 5.0; // Seconds before retrying after a failed idle move
+    private readonly PROCEDURAL_RETRY_DELAY: number = 30.0; // Seconds of procedural idle before retrying after a failed idle move
     private lookAtUpdateEvent: SceneEvent | null = null;
+    private trackingGeneration: number = 0; // Bumped on start/stop to discard superseded starts
     private idleUpdateEvent: SceneEvent | null = null;
     private lastMoveCheckTime: number = 0;
     private moveCheckInterval: number = 0.1; // Check every 100ms
     private moveStartTime: number = 0;
+    private isPausedForConnection: boolean = false;
+    private isSyncingUi: boolean = false; // Ignore button/switch events while reflecting robot state on them
+    private hasShutDown: boolean = false;
+    private hasDetectedInitialState: boolean = false;
+    private readonly LIFECYCLE_MOVE_TIMEOUT: number = 10.0; // Max seconds to wait for wake-up/sleep moves
     
-    // Look-at tracking state
-    private headYaw: number = 0; // Head yaw in radians
-    private headPitch: number = 0; // Head pitch in radians
-    private headRoll: number = 0; // Head roll/tilt in radians (for character)
-    private bodyYaw: number = 0; // Body yaw in radians (follows head with inertia)
-    private leftAntenna: number = 0; // Left antenna angle in radians
-    private rightAntenna: number = 0; // Right antenna angle in radians
-    private trackingStartTime: number = 0; // For temporally consistent randomness
-    private motionIntensity: number = 0; // Smoothed measure of overall motion (0-1)
-    private lastHeadYaw: number = 0; // For computing velocity
-    private lastHeadPitch: number = 0; // For computing velocity
-    
-    // Smoothing parameters for natural movement
-    private readonly HEAD_YAW_SMOOTHING: number = 0.06; // How fast head yaw moves towards target
-    private readonly HEAD_PITCH_SMOOTHING: number = 0.04; // Slower pitch movement
-    private readonly BODY_SMOOTHING: number = 0.04; // How fast body follows head (increased for tighter follow)
-    private readonly ANTENNA_SMOOTHING: number = 0.025; // Slower antenna smoothing to prevent jitter
-    private readonly MOTION_INTENSITY_SMOOTHING: number = 0.05; // How fast motion intensity adapts
-    private readonly MAX_YAW_CHANGE_PER_FRAME: number = 3 * Math.PI / 180; // Max 3 degrees per frame for yaw
-    private readonly MAX_PITCH_CHANGE_PER_FRAME: number = 1.5 * Math.PI / 180; // Max 1.5 degrees per frame for pitch
-    private readonly MAX_ANTENNA_CHANGE_PER_FRAME: number = 2 * Math.PI / 180; // Max 2 degrees per frame for antennas
-    
-    // Mechanical limits from kinematics (in radians)
-    private readonly MIN_PITCH: number = -30 * Math.PI / 180; // -30 degrees (looking down)
-    private readonly MAX_PITCH: number = 20 * Math.PI / 180; // +20 degrees (looking up)
-    private readonly MAX_HEAD_YAW: number = 35 * Math.PI / 180; // ±35 degrees relative to body (reduced for tighter follow)
-    private readonly MAX_BODY_YAW: number = 160 * Math.PI / 180; // ±160 degrees absolute
-    private readonly MAX_ANTENNA: number = 45 * Math.PI / 180; // ±45 degrees for antennas
-    private readonly MAX_ROLL: number = 10 * Math.PI / 180; // ±10 degrees for head tilt (increased)
-    
-    // Character/randomness parameters (temporally consistent noise using sin waves)
-    private readonly PITCH_WOBBLE_AMPLITUDE: number = 6 * Math.PI / 180; // ±6 degrees (more pronounced)
-    private readonly YAW_WOBBLE_AMPLITUDE: number = 5 * Math.PI / 180; // ±5 degrees (more pronounced)
-    private readonly ROLL_WOBBLE_AMPLITUDE: number = 8 * Math.PI / 180; // ±8 degrees for head tilt (more pronounced)
-    private readonly ANTENNA_BASE_AMPLITUDE: number = 8 * Math.PI / 180; // Base antenna movement when idle
-    private readonly ANTENNA_MOTION_AMPLITUDE: number = 20 * Math.PI / 180; // Extra antenna movement when in motion
-    private readonly WOBBLE_SPEED: number = 0.4; // Base frequency for wobble (slower for smoother feel)
+    // Look-at motion (smoothing, body follow, wobble, antennas), integrated with frame delta time
+    private lookAtMotion: LookAtMotion = new LookAtMotion();
+
+    // Procedural idle: streamed between recorded idle moves, and in their place when they fail
+    private proceduralIdle: ProceduralIdle = new ProceduralIdle();
+    private isProceduralIdleActive: boolean = false;
+    private isProceduralIdleStarting: boolean = false;
+    private proceduralIdleGeneration: number = 0; // Bumped on start/stop to discard superseded starts
+
+    // Teleop: the wearer's head rotation drives the same motion pipeline without wobble
+    private headTeleop: HeadTeleop = new HeadTeleop();
+    private teleopMotion: LookAtMotion = new LookAtMotion(TELEOP_MOTION_SETTINGS);
+    private teleopUpdateEvent: SceneEvent | null = null;
+    private teleopGeneration: number = 0; // Bumped on start/stop to discard superseded starts
+    private isTeleopHolding: boolean = false; // Deadman released, robot holds its last pose
+
+    // Hand control: pinch gestures near the robot's head drive the head and antennas
+    private handManipulation: HandManipulation = new HandManipulation(REACHY_MINI_LIMITS);
+    private handControlUpdateEvent: SceneEvent | null = null;
+    private handControlGeneration: number = 0; // Bumped on start/stop to discard superseded starts
+
+    // Listening: turn towards the last direction speech came from, using the look-at motion
+    private listenUpdateEvent: SceneEvent | null = null;
+    private listenGeneration: number = 0; // Bumped on start/stop to discard superseded starts
+    private stopDoaSubscription: (() => void) | null = null;
+    private listenTargetYaw: number | null = null;
+    private soundIndicatorAnimation: CancelFunction | null = null;
+
+    // Attention: pick what look-at aims at among several candidates, glancing between them
+    private attention: AttentionManager | null = null;
+    private soundAttention: SoundAttentionProvider | null = null;
+    private stopAttentionDoaSubscription: (() => void) | null = null;
+    private readonly SOUND_SOURCE_DISTANCE: number = 100; // Heard sounds are placed this far from the head (cm)
+
+    // Calibration
+    private anchoredFrame: AnchoredRobotFrame | null = null; // null = the robot faces the anchor's forward from the anchor offset
+    private readonly LISTEN_MIN_TURN: number = 5 * Math.PI / 180; // Ignore direction changes smaller than this
 
     onAwake() {
-        print(`ReachyMiniController: onAwake called, daemonInterface=${!!this.daemonInterface}`);
+        // Bind to the robot by id; it may register after this component wakes up
+        if (this.robotId) {
+            this.daemonInterface = RobotRegistry.get(this.robotId);
+            if (!this.daemonInterface) {
+                this.isWaitingForRobot = true;
+                const unsubscribe = RobotRegistry.onRobotsChanged.add(() => {
+                    const robot = RobotRegistry.get(this.robotId);
+                    if (robot) {
+                        unsubscribe();
+                        this.attachRobot(robot);
+                    }
+                });
+                // Every DaemonInterface registers on awake, so one still missing once the scene starts is misconfigured
+                this.createEvent("OnStartEvent").bind(() => {
+                    if (this.isWaitingForRobot) {
+                        print(`ReachyMiniController: ERROR - robot ${this.robotId} is not registered, waiting for it`);
+                    }
+                });
+            }
+        }
+        print(`ReachyMiniController: onAwake called, robotId=${this.robotId || "(none)"}, daemonInterface=${!!this.daemonInterface}`);
+
+        if (this.useAttention) {
+            this.attention = this.createAttention();
+        }
         
         // LookAt entity state / button events
         if (this.roundButton) {
             // onValueChange fires with 1 when on, 0 when off
             this.roundButton.onValueChange.add((value: number) => {
+                if (this.isSyncingUi) {
+                    return;
+                }
                 const isToggledOn = value === 1;
                 print(`ReachyMiniController: Button value changed to ${value}`);
                 this.setState(isToggledOn ? RobotState.LookAtTarget : RobotState.Idle);
@@ -94,457 +285,1482 @@ export class ReachyMiniController extends BaseScriptComponent {
         } else {
             print(`ReachyMiniController: WARNING - roundButton not set!`);
         }
-    }
 
-    private setState(newState: RobotState): void {
-        if (this.currentState === newState) {
-            print(`ReachyMiniController: setState(${newState}) - already in this state, skipping`);
-            return;
+        // Motor mode switches
+        if (this.motorSwitch) {
+            this.motorSwitch.onValueChange.add((value: number) => {
+                if (!this.isSyncingUi) {
+                    this.setMotorMode(value === 1 ? MotorMode.Enabled : MotorMode.Disabled);
+                }
+            });
         }
-        print(`ReachyMiniController: setState(${newState}) from ${this.currentState}`);
-        this.currentState = newState;
-
-        // Handle state transition
-        if (newState === RobotState.LookAtTarget) {
-            this.stopAttentive2Loop();
-            this.handleStateLookAtTarget();
-        } else if (newState === RobotState.Idle) {
-            this.stopLookAtTracking();
-            this.handleStateIdle();
+        if (this.complianceSwitch) {
+            this.complianceSwitch.onValueChange.add((value: number) => {
+                if (!this.isSyncingUi) {
+                    this.setMotorMode(value === 1 ? MotorMode.GravityCompensation : MotorMode.Enabled);
+                }
+            });
         }
-    }
-
-    private async handleStateLookAtTarget(): Promise<void> {
-        await this.animateLookAtEntity(true);
-        this.startLookAtTracking();
-    }
-
-    private async handleStateIdle(): Promise<void> {
-        await this.animateLookAtEntity(false);
-        this.startAttentive2Loop();
-    }
 
+        // Teleop controls
+        this.headTeleop.setGain(this.teleopGain);
+        if (this.teleopSwitch) {
+            this.teleopSwitch.onValueChange.add((value: number) => {
+                if (this.isSyncingUi) {
+                    return;
+                }
+                if (value === 1) {
+                    this.setState(RobotState.Teleop);
+                } else if (this.currentState === RobotState.Teleop) {
+                    this.setState(RobotState.Idle);
+                }
+            });
+        }
+        if (this.recenterButton) {
+            this.recenterButton.onTriggerUp.add(() => this.recenterTeleop());
+        }
 
-    // -----------------------------------------------------------------------------------------
-    // API
-    // -----------------------------------------------------------------------------------------
+        // Hand control switch
+        if (this.handControlSwitch) {
+            this.handControlSwitch.onValueChange.add((value: number) => {
+                if (this.isSyncingUi) {
+                    return;
+                }
+                if (value === 1) {
+                    this.setState(RobotState.HandControl);
+                } else if (this.currentState === RobotState.HandControl) {
+                    this.setState(RobotState.Idle);
+                }
+            });
+        }
 
-    /**
-     * Start the attentive2 emotion loop
-     */
-    private async startAttentive2Loop(): Promise<void> {
-        print(`ReachyMiniController: startAttentive2Loop called, daemonInterface=${!!this.daemonInterface}, isLooping=${this.isAttentive2Looping}`);
-        
-        if (!this.daemonInterface) {
-            print(`ReachyMiniController: ERROR - daemonInterface is null!`);
-            return;
+        // Listening switch
+        if (this.listenSwitch) {
+            this.listenSwitch.onValueChange.add((value: number) => {
+                if (this.isSyncingUi) {
+                    return;
+                }
+                if (value === 1) {
+                    this.setState(RobotState.Listening);
+                } else if (this.currentState === RobotState.Listening) {
+                    this.setState(RobotState.Idle);
+                }
+            });
         }
-        
-        if (this.isAttentive2Looping) {
-            print(`ReachyMiniController: Already looping, skipping`);
-            return;
+        if (this.soundIndicator) {
+            this.soundIndicator.enabled = false;
         }
 
-        this.isAttentive2Looping = true;
-        this.lastMoveCheckTime = getTime();
-        
-        // First, move to neutral/zero position before starting the idle animation
-        await this.gotoNeutralPosition();
-        
-        // Set up update loop to check for move completion
-        if (!this.idleUpdateEvent) {
-            this.idleUpdateEvent = this.createEvent("UpdateEvent");
-            this.idleUpdateEvent.bind(() => {
-                if (this.currentState === RobotState.Idle && this.isAttentive2Looping) {
-                    this.checkMoveCompletion();
+        // Sleep / wake switch
+        if (this.sleepSwitch) {
+            this.sleepSwitch.onValueChange.add((value: number) => {
+                if (this.isSyncingUi) {
+                    return;
+                }
+                if (value === 1) {
+                    this.setState(RobotState.Sleeping);
+                } else if (this.currentState === RobotState.Sleeping) {
+                    this.setState(RobotState.Idle);
                 }
             });
         }
-        
-        // Start the animation loop
-        this.playAttentive2Loop();
+
+        // Pause robot loops while the daemon is unreachable
+        this.listenToConnection();
+
+        // Leave the robot in a safe pose when the lens closes or this component is disabled
+        this.createEvent("OnDestroyEvent").bind(() => {
+            this.runShutdownSequence();
+        });
+        this.createEvent("OnDisableEvent").bind(() => {
+            this.runShutdownSequence();
+        });
+        this.createEvent("OnEnableEvent").bind(() => {
+            this.resumeAfterShutdown();
+        });
     }
-    
+
     /**
-     * Move robot to neutral/zero position before idle animation
+     * Switch to a robot from the registry that registered after this component woke up,
+     * and start the current state's loop on it
      */
-    private async gotoNeutralPosition(): Promise<void> {
+    private attachRobot(robot: DaemonInterface): void {
+        print(`ReachyMiniController: Bound to robot ${robot.getRobotId()} (${robot.getBaseUrl()})`);
+        this.daemonInterface = robot;
+        this.isWaitingForRobot = false;
+        this.listenToConnection();
+        this.resumeCurrentState();
+    }
+
+    private listenToConnection(): void {
         const daemon = this.daemonInterface as any;
-        
-        if (!daemon.goto) {
-            print(`ReachyMiniController: WARNING - goto method not found on daemon`);
-            return;
+        if (daemon && daemon.onConnectionChanged) {
+            daemon.onConnectionChanged.add((status: ConnectionStatus) => {
+                this.handleConnectionChanged(status);
+            });
         }
-        
-        const neutralPose: XYZRPYPose = {
-            x: 0, y: 0, z: 0,
-            roll: 0, pitch: 0, yaw: 0
-        };
-        
-        try {
-            print(`ReachyMiniController: Moving to neutral position (1.5s)`);
-            await daemon.goto(neutralPose, 0, 1.5, "minjerk");
-            print(`ReachyMiniController: Reached neutral position`);
-        } catch (error) {
-            print(`ReachyMiniController: Error moving to neutral: ${error}`);
+    }
+
+    /**
+     * Pause tracking and idle loops when the daemon disconnects, resume the current state when it returns
+     */
+    private handleConnectionChanged(status: ConnectionStatus): void {
+        if (status === ConnectionStatus.Disconnected) {
+            if (this.isPausedForConnection) {
+                return;
+            }
+            print(`ReachyMiniController: Daemon disconnected, pausing ${this.currentState}`);
+            this.isPausedForConnection = true;
+            this.stopLookAtTracking();
+            this.stopTeleop();
+            this.stopHandControl();
+            this.stopListening();
+            this.stopIdleLoop();
+        } else if (this.isPausedForConnection && !this.hasShutDown) {
+            this.isPausedForConnection = false;
+            this.refreshMotorSwitches();
+            if (!this.hasDetectedInitialState) {
+                this.hasDetectedInitialState = true;
+                this.detectInitialState().then(() => this.resumeCurrentState());
+            } else {
+                this.resumeCurrentState();
+            }
         }
     }
 
     /**
-     * Play attentive2 and restart when it completes (loop)
+     * Restart the robot loop belonging to the current state
      */
-    private async playAttentive2Loop(): Promise<void> {
-        print(`ReachyMiniController: playAttentive2Loop called, daemonInterface=${!!this.daemonInterface}, isLooping=${this.isAttentive2Looping}`);
-        
-        if (!this.daemonInterface) {
-            print(`ReachyMiniController: playAttentive2Loop - no daemonInterface`);
+    private async resumeCurrentState(): Promise<void> {
+        if (this.isPausedForConnection || this.hasShutDown) {
             return;
         }
-        
-        if (!this.isAttentive2Looping) {
-            print(`ReachyMiniController: playAttentive2Loop - not looping anymore`);
-            return;
+        if (this.needsWakeUp && this.currentState !== RobotState.Sleeping) {
+            this.needsWakeUp = false;
+            await this.wakeUpRobot();
+        }
+        if (this.needsSleep && this.currentState === RobotState.Sleeping) {
+            this.needsSleep = false;
+            await this.putRobotToSleep(() => this.currentState !== RobotState.Sleeping || this.stateMachine.isTransitioning);
         }
+        print(`ReachyMiniController: Resuming ${this.currentState}`);
+        if (this.currentState === RobotState.LookAtTarget) {
+            this.startLookAtTracking();
+        } else if (this.currentState === RobotState.Teleop) {
+            this.startTeleop();
+        } else if (this.currentState === RobotState.HandControl) {
+            this.startHandControl();
+        } else if (this.currentState === RobotState.Listening) {
+            this.startListening();
+        } else if (this.currentState === RobotState.Idle) {
+            this.startIdleLoop();
+        }
+    }
 
+    /**
+     * Adopt the Sleeping state if the robot is already asleep, so it survives lens restarts.
+     * The robot counts as asleep when the daemon backend is not running or its motors are disabled
+     * (the sleep sequence disables them after the sleep animation).
+     */
+    private async detectInitialState(): Promise<void> {
         const daemon = this.daemonInterface as any;
-
+        if (!daemon || !daemon.getDaemonStatus || !daemon.getMotorMode) {
+            return;
+        }
         try {
-            // Play the move
-            if (daemon.playRecordedMove) {
-                print(`ReachyMiniController: Calling playRecordedMove for ${this.ATTENTIVE2_MOVE_NAME}`);
-                this.attentive2MoveUuid = await daemon.playRecordedMove(this.ATTENTIVE2_DATASET_NAME, this.ATTENTIVE2_MOVE_NAME);
-                print(`ReachyMiniController: playRecordedMove returned UUID: ${this.attentive2MoveUuid}`);
-                this.lastMoveCheckTime = getTime();
-                this.moveStartTime = getTime();
-            } else {
-                print(`ReachyMiniController: ERROR - playRecordedMove method not found! Available methods: ${Object.keys(daemon).join(', ')}`);
+            const status: DaemonStatus = await daemon.getDaemonStatus({timeout: 2.0});
+            const isAsleep = status.state !== DaemonState.Running
+                || (await daemon.getMotorMode({timeout: 2.0})) === MotorMode.Disabled;
+            if (isAsleep && this.currentState === RobotState.Idle) {
+                print(`ReachyMiniController: Robot is asleep (daemon ${status.state}), starting in Sleeping`);
+                this.stateMachine.reset(RobotState.Sleeping);
             }
         } catch (error) {
-            print(`ReachyMiniController: EXCEPTION in playRecordedMove: ${error}`);
-            // Don't stop looping on error - try again after timeout
-            this.moveStartTime = getTime();
+            print(`ReachyMiniController: Could not detect initial robot state: ${error}`);
         }
     }
 
     /**
-     * Check move completion in update loop and restart if needed
+     * Check whether the daemon link is currently down
      */
-    private async checkMoveCompletion(): Promise<void> {
-        if (!this.isAttentive2Looping || !this.attentive2MoveUuid || !this.daemonInterface) {
-            return;
-        }
+    private isDaemonDisconnected(): boolean {
+        const daemon = this.daemonInterface as any;
+        return !!daemon && !!daemon.getConnectionStatus
+            && daemon.getConnectionStatus() === ConnectionStatus.Disconnected;
+    }
 
-        const currentTime = getTime();
-        if (currentTime - this.lastMoveCheckTime < this.moveCheckInterval) {
-            return; // Throttle checks
-        }
-        this.lastMoveCheckTime = currentTime;
+    /**
+     * Declare the robot state transitions and the hooks run when entering/leaving each state
+     */
+    private createStateMachine(): StateMachine<RobotState> {
+        const machine = new StateMachine<RobotState>(RobotState.Uninitialized, [
+            {from: RobotState.Uninitialized, to: [RobotState.Idle, RobotState.Sleeping]},
+            {from: [RobotState.Idle, RobotState.Sleeping, RobotState.Replaying, ...INTERACTIVE_MODES], to: RobotState.LookAtTarget,
+                guard: () => !!this.roundButton && !!this.controlledEntity},
+            {from: [RobotState.Idle, RobotState.Sleeping, RobotState.Replaying, ...INTERACTIVE_MODES], to: RobotState.Teleop,
+                guard: () => !!this.teleopCamera},
+            {from: [RobotState.Idle, RobotState.Sleeping, RobotState.Replaying, ...INTERACTIVE_MODES], to: RobotState.HandControl,
+                guard: () => !!this.roundButton},
+            {from: [RobotState.Idle, RobotState.Sleeping, RobotState.Replaying, ...INTERACTIVE_MODES], to: RobotState.Listening},
+            {from: [RobotState.Sleeping, RobotState.Replaying, ...INTERACTIVE_MODES], to: RobotState.Idle},
+            {from: [RobotState.Idle, RobotState.Replaying, ...INTERACTIVE_MODES], to: RobotState.Sleeping},
+            {from: [RobotState.Idle, ...INTERACTIVE_MODES], to: RobotState.Calibrating},
+            {from: RobotState.Calibrating, to: RobotState.Idle},
+            // Replays only start from Idle, so they never compete with another streaming loop
+            {from: RobotState.Idle, to: RobotState.Replaying}
+        ], (error: any, context: TransitionContext<RobotState>) => {
+            print(`ReachyMiniController: Error in ${context.from} -> ${context.to} transition: ${error}`);
+        });
 
-        const daemon = this.daemonInterface as any;
-        
-        // Check if move is still running
-        try {
-            if (daemon.getRunningMoves) {
-                const runningMoves = await daemon.getRunningMoves();
-                const isStillRunning = runningMoves && runningMoves.some((move: any) => move.uuid === this.attentive2MoveUuid);
-                
-                if (!isStillRunning && this.isAttentive2Looping) {
-                    // Move completed, restart it
-                    await this.playAttentive2Loop();
+        machine.setHooks(RobotState.Uninitialized, {
+            onExit: () => this.animateLookAtEntity(false)
+        });
+        machine.setHooks(RobotState.Idle, {
+            onEnter: (context) => {
+                if (!context.isCancelled() && !this.pauseIfDisconnected()) {
+                    this.startIdleLoop();
                 }
-            } else {
-                // Fallback: restart after estimated duration (assuming ~5 seconds for emotion)
-                // Use a simple time-based check from move start
-                if (currentTime - this.moveStartTime >= 5.0) {
-                    if (this.isAttentive2Looping) {
-                        await this.playAttentive2Loop();
-                    }
+            },
+            onExit: () => this.stopIdleLoop()
+        });
+        machine.setHooks(RobotState.LookAtTarget, {
+            onEnter: async (context) => {
+                await this.animateLookAtEntity(true);
+                if (!context.isCancelled() && !this.pauseIfDisconnected()) {
+                    this.startLookAtTracking();
                 }
+            },
+            onExit: async () => {
+                this.stopLookAtTracking();
+                await this.animateLookAtEntity(false);
             }
-        } catch (error) {
-            // On error, try restarting after estimated duration
-            if (currentTime - this.moveStartTime >= 5.0) {
-                if (this.isAttentive2Looping) {
-                    await this.playAttentive2Loop();
+        });
+        machine.setHooks(RobotState.Teleop, {
+            onEnter: (context) => {
+                if (!context.isCancelled() && !this.pauseIfDisconnected()) {
+                    this.startTeleop();
+                }
+            },
+            onExit: () => this.stopTeleop()
+        });
+        machine.setHooks(RobotState.HandControl, {
+            onEnter: (context) => {
+                if (!context.isCancelled() && !this.pauseIfDisconnected()) {
+                    this.startHandControl();
+                }
+            },
+            onExit: () => this.stopHandControl()
+        });
+        machine.setHooks(RobotState.Listening, {
+            onEnter: (context) => {
+                if (!context.isCancelled() && !this.pauseIfDisconnected()) {
+                    this.startListening();
+                }
+            },
+            onExit: () => this.stopListening()
+        });
+        machine.setHooks(RobotState.Calibrating, {
+            // Compliant motors let the head be aimed at the calibration points by hand
+            onEnter: () => this.setMotorMode(MotorMode.GravityCompensation),
+            onExit: () => this.setMotorMode(MotorMode.Enabled)
+        });
+        machine.setHooks(RobotState.Replaying, {
+            // The replay streams its own targets; drop the last one so it can't land after the next state starts
+            onExit: () => {
+                const daemon = this.daemonInterface as any;
+                if (daemon && daemon.clearStreamedTarget) {
+                    daemon.clearStreamedTarget();
                 }
             }
-        }
+        });
+        machine.setHooks(RobotState.Sleeping, {
+            onEnter: async (context) => {
+                if (!this.pauseIfDisconnected()) {
+                    await this.putRobotToSleep(() => context.isCancelled());
+                } else if (this.needsWakeUp) {
+                    this.needsWakeUp = false; // Never woken up, still asleep
+                } else {
+                    this.needsSleep = true; // Put to sleep on reconnect instead
+                }
+            },
+            onExit: async () => {
+                if (this.needsSleep) {
+                    this.needsSleep = false; // Never went to sleep, nothing to wake up from
+                    return;
+                }
+                if (this.isDaemonDisconnected()) {
+                    this.needsWakeUp = true; // Woken up on reconnect instead
+                    return;
+                }
+                await this.wakeUpRobot();
+            }
+        });
+
+        machine.onStateChanged((to: RobotState, from: RobotState) => {
+            print(`ReachyMiniController: State ${from} -> ${to}`);
+            this.syncLifecycleUi();
+            if (this.robotAudio) {
+                this.robotAudio.playCue(`exit:${from}`);
+                this.robotAudio.playCue(`enter:${to}`);
+            }
+        });
+        return machine;
     }
 
     /**
-     * Stop the attentive_2 loop
+     * Request a state change; rejected transitions are logged and ignored
      */
-    private stopAttentive2Loop(): void {
-        this.isAttentive2Looping = false;
-        if (this.attentive2MoveUuid && this.daemonInterface) {
-            const daemon = this.daemonInterface as any;
-            if (daemon.stopMove) {
-                daemon.stopMove(this.attentive2MoveUuid).catch((error: any) => {
-                    print(`ReachyMiniController: Error stopping ${this.ATTENTIVE2_MOVE_NAME}: ${error}`);
-                });
-            }
+    private async setState(newState: RobotState): Promise<void> {
+        if (this.currentState === newState && !this.stateMachine.isTransitioning) {
+            print(`ReachyMiniController: setState(${newState}) - already in this state, skipping`);
+            return;
         }
-        this.attentive2MoveUuid = null;
-        
-        // Clean up update event if no longer needed
-        if (this.idleUpdateEvent && this.currentState !== RobotState.Idle) {
-            this.removeEvent(this.idleUpdateEvent);
-            this.idleUpdateEvent = null;
+        if (!this.stateMachine.canTransition(newState) && !this.stateMachine.isTransitioning) {
+            print(`ReachyMiniController: setState(${newState}) - transition from ${this.currentState} not allowed`);
+            this.syncLifecycleUi();
+            return;
+        }
+        print(`ReachyMiniController: setState(${newState}) from ${this.currentState}`);
+        const applied = await this.stateMachine.transition(newState);
+        if (!applied) {
+            // Superseded or rejected: make sure the UI shows the state we actually ended in
+            this.syncLifecycleUi();
         }
     }
 
+    private get currentState(): RobotState {
+        return this.stateMachine.state;
+    }
+
     /**
-     * Start look-at tracking update loop
+     * Reflect the current state on the look-at button and the mode and sleep switches without triggering their handlers
      */
-    private startLookAtTracking(): void {
-        if (this.lookAtUpdateEvent) {
-            return; // Already tracking
+    private syncLifecycleUi(): void {
+        const isLookingAt = this.currentState === RobotState.LookAtTarget;
+        const isTeleop = this.currentState === RobotState.Teleop;
+        const isHandControl = this.currentState === RobotState.HandControl;
+        const isListening = this.currentState === RobotState.Listening;
+        const isSleeping = this.currentState === RobotState.Sleeping;
+        this.isSyncingUi = true;
+        if (this.roundButton && this.roundButton.isOn !== isLookingAt) {
+            this.roundButton.isOn = isLookingAt;
         }
-
-        // Reset tracking state to neutral when starting
-        this.headYaw = 0;
-        this.headPitch = 0;
-        this.headRoll = 0;
-        this.bodyYaw = 0;
-        this.leftAntenna = 0;
-        this.rightAntenna = 0;
-        this.trackingStartTime = getTime();
-        this.motionIntensity = 0;
-        this.lastHeadYaw = 0;
-        this.lastHeadPitch = 0;
-
-        this.lookAtUpdateEvent = this.createEvent("UpdateEvent");
-        this.lookAtUpdateEvent.bind(() => {
-            if (this.currentState === RobotState.LookAtTarget) {
-                this.updateLookAtTarget();
-            }
-        });
+        if (this.teleopSwitch && this.teleopSwitch.isOn !== isTeleop) {
+            this.teleopSwitch.isOn = isTeleop;
+        }
+        if (this.handControlSwitch && this.handControlSwitch.isOn !== isHandControl) {
+            this.handControlSwitch.isOn = isHandControl;
+        }
+        if (this.listenSwitch && this.listenSwitch.isOn !== isListening) {
+            this.listenSwitch.isOn = isListening;
+        }
+        if (this.sleepSwitch && this.sleepSwitch.isOn !== isSleeping) {
+            this.sleepSwitch.isOn = isSleeping;
+        }
+        this.isSyncingUi = false;
     }
 
     /**
-     * Stop look-at tracking update loop
+     * Defer the current state's robot loop until the daemon reconnects
+     * @returns true if the daemon is disconnected and the loop was deferred
      */
-    private stopLookAtTracking(): void {
-        if (this.lookAtUpdateEvent) {
-            this.removeEvent(this.lookAtUpdateEvent);
-            this.lookAtUpdateEvent = null;
+    private pauseIfDisconnected(): boolean {
+        if (!this.isDaemonDisconnected()) {
+            return false;
         }
+        print(`ReachyMiniController: Daemon disconnected, ${this.currentState} will start on reconnect`);
+        this.isPausedForConnection = true;
+        return true;
     }
 
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
     /**
-     * Update look-at target (called every frame)
-     * Computes desired angles, smoothly interpolates head, body follows with inertia
-     * Adds character through temporally consistent wobble and antenna movement
+     * Set the teleop gain (1 = mirror the wearer's head 1:1)
      */
-    private updateLookAtTarget(): void {
-        if (!this.daemonInterface || !this.roundButton || !this.controlledEntity) {
-            return;
-        }
+    public setTeleopGain(gain: number): void {
+        this.teleopGain = gain;
+        this.headTeleop.setGain(gain);
+    }
 
-        const daemon = this.daemonInterface as any;
-        if (!daemon.setTarget) {
-            return;
-        }
+    /**
+     * Apply personality values (smoothing, speeds, wobble) to the look-at and listening motion
+     */
+    public setPersonality(values: PersonalityValues): void {
+        this.lookAtMotion.setSettings(applyPersonality(this.lookAtMotion.getSettings(), values));
+    }
 
-        // Time for temporally consistent randomness
-        const t = getTime() - this.trackingStartTime;
+    public getPersonality(): PersonalityValues {
+        return extractPersonality(this.lookAtMotion.getSettings());
+    }
 
-        // Compute desired yaw and pitch to look at target
-        const desiredAngles = this.computeDesiredAngles();
-        
-        // Smoothly interpolate head towards desired angles with dampening for drastic changes
-        const yawDelta = this.dampenChange(
-            (desiredAngles.yaw - this.headYaw) * this.HEAD_YAW_SMOOTHING,
-            this.MAX_YAW_CHANGE_PER_FRAME
-        );
-        const pitchDelta = this.dampenChange(
-            (desiredAngles.pitch - this.headPitch) * this.HEAD_PITCH_SMOOTHING,
-            this.MAX_PITCH_CHANGE_PER_FRAME
-        );
-        
-        this.headYaw += yawDelta;
-        this.headPitch += pitchDelta;
-        
-        // Compute motion intensity from velocity (how fast head is moving)
-        const headVelocity = Math.sqrt(
-            Math.pow(this.headYaw - this.lastHeadYaw, 2) +
-            Math.pow(this.headPitch - this.lastHeadPitch, 2)
-        );
-        // Normalize velocity to 0-1 range (max ~5 degrees per frame = full intensity)
-        const targetIntensity = this.clamp(headVelocity / (5 * Math.PI / 180), 0, 1);
-        this.motionIntensity += (targetIntensity - this.motionIntensity) * this.MOTION_INTENSITY_SMOOTHING;
+    /**
+     * Use a calibrated robot frame for look-at, hand control and the sound indicator (null = uncalibrated:
+     * the robot is placed by the anchor and faces its forward).
+     * The frame is kept relative to the anchor, so it follows the anchor when it is placed again.
+     * Teleop angles are relative to the recentered head pose and need no calibration.
+     */
+    public setRobotFrame(frame: RobotFrame | null): void {
+        this.setAnchoredRobotFrame(frame ? toAnchoredRobotFrame(frame, this.getAnchorPose()) : null);
+    }
+
+    /**
+     * Use a robot frame given relative to the anchor, e.g. a saved calibration (null = uncalibrated)
+     */
+    public setAnchoredRobotFrame(frame: AnchoredRobotFrame | null): void {
+        this.anchoredFrame = frame;
+        print(frame
+            ? `ReachyMiniController: Robot frame at ${frame.offset} from the anchor, yaw ${(frame.yaw * 180 / Math.PI).toFixed(1)}°`
+            : `ReachyMiniController: Robot frame cleared, using the anchor`);
+    }
+
+    public getAnchoredRobotFrame(): AnchoredRobotFrame | null {
+        return this.anchoredFrame;
+    }
+
+    /**
+     * The calibrated robot frame in world space, recomposed from the anchor's current pose
+     */
+    public getRobotFrame(): RobotFrame | null {
+        return this.anchoredFrame ? fromAnchoredRobotFrame(this.anchoredFrame, this.getAnchorPose()) : null;
+    }
+
+    /**
+     * World position of the robot's head estimated from the AR anchor (button origin plus entity offset)
+     */
+    public getAnchorHeadPosition(): vec3 | null {
+        if (!this.roundButton) {
+            return null;
+        }
+        const rootTransform = this.roundButton.getSceneObject().getTransform();
+        const rootWorldPos = rootTransform.getWorldPosition();
+        const rootWorldRot = rootTransform.getWorldRotation();
+        const rootOffsetWorld = rootWorldRot.multiplyVec3(this.entityOffset);
+        return rootWorldPos.add(rootOffsetWorld);
+    }
+
+    /**
+     * World pose of the AR anchor (the button), or the world origin without one
+     */
+    private getAnchorPose(): AnchorPose {
+        if (!this.roundButton) {
+            return {position: vec3.zero(), rotation: quat.quatIdentity()};
+        }
+        const rootTransform = this.roundButton.getSceneObject().getTransform();
+        return {position: rootTransform.getWorldPosition(), rotation: rootTransform.getWorldRotation()};
+    }
+
+    /**
+     * Stop the robot's loops and make its motors compliant so it can be aimed by hand
+     * @returns false if calibration can't start from the current state
+     */
+    public async startCalibration(): Promise<boolean> {
+        await this.setState(RobotState.Calibrating);
+        return this.currentState === RobotState.Calibrating;
+    }
+
+    /**
+     * Leave calibration, re-enabling the motors and returning to Idle
+     */
+    public async finishCalibration(): Promise<void> {
+        if (this.currentState === RobotState.Calibrating) {
+            await this.setState(RobotState.Idle);
+        }
+    }
+
+    /**
+     * Attention manager choosing the look-at target, or null when useAttention is off.
+     * Add providers to it to make more things worth a glance.
+     */
+    public getAttention(): AttentionManager | null {
+        return this.attention;
+    }
+
+    /**
+     * What the robot is looking at in attention mode, or null
+     */
+    public getAttentionFocus(): AttentionFocus | null {
+        return this.attention ? this.attention.getFocus() : null;
+    }
+
+    /**
+     * Hand the robot over to a replay (a streamed recording, a choreography): stops the idle loop so
+     * only the replay commands the robot
+     * @returns false unless the robot is Idle
+     */
+    public async startReplay(): Promise<boolean> {
+        if (this.currentState !== RobotState.Idle) {
+            return false;
+        }
+        await this.setState(RobotState.Replaying);
+        return this.isReplaying();
+    }
+
+    /**
+     * Take the target stream back after a replay and return to Idle
+     */
+    public async finishReplay(): Promise<void> {
+        if (this.currentState === RobotState.Replaying) {
+            await this.setState(RobotState.Idle);
+        }
+    }
+
+    /**
+     * Whether a replay owns the target stream; false once another mode took over
+     */
+    public isReplaying(): boolean {
+        return this.currentState === RobotState.Replaying;
+    }
+
+    /**
+     * Make the wearer's current head orientation the robot's neutral pose
+     */
+    public recenterTeleop(): void {
+        if (!this.teleopCamera) {
+            return;
+        }
+        this.headTeleop.recenter(this.teleopCamera.getTransform().getWorldRotation());
+        print(`ReachyMiniController: Teleop recentered`);
+    }
+
+    /**
+     * Set the motor mode and reflect it on the switches
+     */
+    private async setMotorMode(mode: MotorMode): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.setMotorMode) {
+            return;
+        }
+        try {
+            print(`ReachyMiniController: Setting motor mode to ${mode}`);
+            await daemon.setMotorMode(mode);
+        } catch (error) {
+            print(`ReachyMiniController: Error setting motor mode ${mode}: ${error}`);
+        }
+        await this.refreshMotorSwitches();
+    }
+
+    /**
+     * Read the daemon's motor mode and update the switches to match
+     */
+    private async refreshMotorSwitches(): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.getMotorMode || (!this.motorSwitch && !this.complianceSwitch)) {
+            return;
+        }
+        try {
+            const mode: MotorMode = await daemon.getMotorMode();
+            this.isSyncingUi = true;
+            if (this.motorSwitch) {
+                this.motorSwitch.isOn = mode !== MotorMode.Disabled;
+            }
+            if (this.complianceSwitch) {
+                this.complianceSwitch.isOn = mode === MotorMode.GravityCompensation;
+            }
+        } catch (error) {
+            print(`ReachyMiniController: Error reading motor mode: ${error}`);
+        } finally {
+            this.isSyncingUi = false;
+        }
+    }
+
+    /**
+     * Enable the motors and play the wake-up move, waiting for it to finish
+     */
+    private async wakeUpRobot(): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.wakeUp) {
+            return;
+        }
+        try {
+            print(`ReachyMiniController: Waking up`);
+            if (daemon.setMotorMode) {
+                await daemon.setMotorMode(MotorMode.Enabled);
+            }
+            const uuid: string = await daemon.wakeUp();
+            await this.waitForMoveCompletion(uuid, this.LIFECYCLE_MOVE_TIMEOUT);
+            print(`ReachyMiniController: Awake`);
+        } catch (error) {
+            print(`ReachyMiniController: Error waking up: ${error}`);
+        }
+        this.refreshMotorSwitches();
+    }
+
+    /**
+     * Play the sleep move, then disable the motors so the robot stays asleep across lens restarts
+     * @param isCancelled Whether the robot was woken up meanwhile
+     */
+    private async putRobotToSleep(isCancelled: () => boolean): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.gotoSleep) {
+            return;
+        }
+        try {
+            print(`ReachyMiniController: Going to sleep`);
+            const uuid: string = await daemon.gotoSleep();
+            await this.waitForMoveCompletion(uuid, this.LIFECYCLE_MOVE_TIMEOUT);
+            if (isCancelled()) {
+                return; // Woken up during the sleep animation
+            }
+            if (daemon.setMotorMode) {
+                await daemon.setMotorMode(MotorMode.Disabled);
+            }
+            print(`ReachyMiniController: Asleep`);
+        } catch (error) {
+            print(`ReachyMiniController: Error going to sleep: ${error}`);
+        }
+        this.refreshMotorSwitches();
+    }
+
+    /**
+     * Wait until a move is no longer listed as running, or the timeout elapses
+     */
+    private async waitForMoveCompletion(moveUuid: string, timeout: number): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        const startTime = getTime();
+        while (getTime() - startTime < timeout) {
+            await wait(this, 0.25);
+            const runningMoves: MoveUUID[] = await daemon.getRunningMoves();
+            if (!runningMoves.some((move) => move.uuid === moveUuid)) {
+                return;
+            }
+        }
+        print(`ReachyMiniController: Move ${moveUuid} still running after ${timeout}s, continuing`);
+    }
+
+    /**
+     * Stop all robot activity and move to a safe pose:
+     * stop running moves, goto neutral, then optionally disable the motors
+     */
+    private async runShutdownSequence(): Promise<void> {
+        if (this.hasShutDown) {
+            return;
+        }
+        this.hasShutDown = true;
+        print(`ReachyMiniController: Running shutdown sequence`);
+
+        this.stopLookAtTracking();
+        this.stopTeleop();
+        this.stopHandControl();
+        this.stopListening();
+        this.stopIdleLoop();
+
+        const daemon = this.daemonInterface as any;
+        if (!daemon || this.isDaemonDisconnected() || this.currentState === RobotState.Sleeping) {
+            return; // Unreachable, or already resting in the sleep pose
+        }
+
+        try {
+            if (daemon.stopAllMoves) {
+                await daemon.stopAllMoves({timeout: 1.0});
+            }
+        } catch (error) {
+            print(`ReachyMiniController: Error stopping moves during shutdown: ${error}`);
+        }
+
+        if (this.currentState === RobotState.Calibrating && daemon.setMotorMode) {
+            try {
+                await daemon.setMotorMode(MotorMode.Enabled); // Compliant for calibration, stiffen before moving
+            } catch (error) {
+                print(`ReachyMiniController: Error enabling motors during shutdown: ${error}`);
+            }
+        }
+        await this.gotoNeutralPosition();
+
+        if (this.disableMotorsOnShutdown && daemon.setMotorMode) {
+            try {
+                await daemon.setMotorMode(MotorMode.Disabled);
+                print(`ReachyMiniController: Motors disabled`);
+            } catch (error) {
+                print(`ReachyMiniController: Error disabling motors during shutdown: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Restart the current state's loop when the component is re-enabled after a shutdown
+     */
+    private resumeAfterShutdown(): void {
+        if (!this.hasShutDown) {
+            return;
+        }
+        this.hasShutDown = false;
+        print(`ReachyMiniController: Re-enabled, resuming ${this.currentState}`);
+        if (this.disableMotorsOnShutdown && this.currentState !== RobotState.Sleeping) {
+            this.setMotorMode(MotorMode.Enabled);
+        }
+        if (this.pauseIfDisconnected()) {
+            return;
+        }
+        this.resumeCurrentState();
+    }
+
+    /**
+     * Start the idle behavior loop, playing moves from the idle playlist
+     */
+    private startIdleLoop(): void {
+        print(`ReachyMiniController: startIdleLoop called, daemonInterface=${!!this.daemonInterface}, isLooping=${this.isIdleLooping}`);
         
-        // Store for next frame velocity calculation
-        this.lastHeadYaw = this.headYaw;
-        this.lastHeadPitch = this.headPitch;
+        if (!this.daemonInterface) {
+            if (!this.isWaitingForRobot) {
+                print(`ReachyMiniController: ERROR - daemonInterface is null!`);
+            }
+            return; // Else started once the robot registers
+        }
         
-        // Compute wobble for character - always added on top of all movements
-        const pitchWobble = this.computeWobble(t, this.PITCH_WOBBLE_AMPLITUDE, 1.0, 0);
-        const yawWobble = this.computeWobble(t, this.YAW_WOBBLE_AMPLITUDE, 0.7, 1.5);
-        const rollWobble = this.computeWobble(t, this.ROLL_WOBBLE_AMPLITUDE, 0.35, 3.0);
+        if (this.isIdleLooping) {
+            print(`ReachyMiniController: Already looping, skipping`);
+            return;
+        }
+
+        if (!this.idleScheduler) {
+            const entries = this.idlePlaylist ? this.idlePlaylist.getEntries() : [];
+            this.idleScheduler = new IdleBehaviorScheduler(entries.length > 0 ? entries : DEFAULT_IDLE_PLAYLIST);
+        }
+
+        this.isIdleLooping = true;
+        this.idleMoveUuid = null;
+        this.nextIdleMoveTime = getTime();
+        this.lastMoveCheckTime = getTime();
         
-        // Update roll for head tilt character
-        this.headRoll = rollWobble;
+        // Set up update loop to check for move completion and schedule the next move
+        if (!this.idleUpdateEvent) {
+            this.idleUpdateEvent = this.createEvent("UpdateEvent");
+            this.idleUpdateEvent.bind(() => {
+                if (this.currentState === RobotState.Idle && this.isIdleLooping) {
+                    this.updateIdleLoop();
+                }
+            });
+        }
+    }
+    
+    /**
+     * Move robot to neutral/zero position (idle transitions, shutdown)
+     */
+    private async gotoNeutralPosition(): Promise<void> {
+        const daemon = this.daemonInterface as any;
         
-        // Clamp head pitch to mechanical limits
-        this.headPitch = this.clamp(this.headPitch, this.MIN_PITCH, this.MAX_PITCH);
+        if (!daemon.goto) {
+            print(`ReachyMiniController: WARNING - goto method not found on daemon`);
+            return;
+        }
         
-        // Body follows head - starts moving earlier for tighter coordination
-        const relativeYaw = this.headYaw - this.bodyYaw;
+        const neutralPose: XYZRPYPose = {
+            x: 0, y: 0, z: 0,
+            roll: 0, pitch: 0, yaw: 0
+        };
         
-        // Body always follows head with some lag, but accelerates when difference is large
-        const followStrength = Math.abs(relativeYaw) > this.MAX_HEAD_YAW * 0.5
-            ? this.BODY_SMOOTHING * 2  // Faster when getting far
-            : this.BODY_SMOOTHING;     // Normal drift
+        try {
+            print(`ReachyMiniController: Moving to neutral position (1.5s)`);
+            await daemon.goto(neutralPose, 0, 1.5, "minjerk");
+            print(`ReachyMiniController: Reached neutral position`);
+        } catch (error) {
+            print(`ReachyMiniController: Error moving to neutral: ${error}`);
+        }
+    }
+
+    /**
+     * Idle loop tick: start the next move once the pause is over, or check the current one for completion
+     */
+    private updateIdleLoop(): void {
+        if (this.isIdleMoveStarting || this.isCheckingIdleMove) {
+            return;
+        }
+        if (this.idleMoveEntry) {
+            this.checkIdleMoveCompletion();
+        } else if (this.playRecordedIdleMoves && getTime() >= this.nextIdleMoveTime) {
+            this.playNextIdleBehavior();
+        } else if (this.useProceduralIdle) {
+            this.updateProceduralIdle();
+        }
+    }
+
+    /**
+     * Pick the next move from the idle playlist and play it, with its optional neutral transition
+     */
+    private async playNextIdleBehavior(): Promise<void> {
+        const entry = this.idleScheduler.pickNext(getTime());
+        if (!entry) {
+            // Everything is cooling down, wait for the first move to become available
+            this.nextIdleMoveTime = getTime() + Math.min(this.idleScheduler.timeUntilAvailable(getTime()), this.IDLE_RETRY_DELAY);
+            return;
+        }
+
+        const daemon = this.daemonInterface as any;
+        this.isIdleMoveStarting = true;
+        this.idleMoveEntry = entry;
+        this.moveStartTime = getTime();
+        this.stopProceduralIdle();
+
+        try {
+            if (entry.gotoNeutralFirst) {
+                await this.gotoNeutralPosition();
+            }
+            if (!this.isIdleLooping) {
+                this.idleMoveEntry = null;
+                return;
+            }
+            print(`ReachyMiniController: Calling playRecordedMove for ${entry.moveName}`);
+            this.idleMoveUuid = await daemon.playRecordedMove(entry.datasetName, entry.moveName);
+            print(`ReachyMiniController: playRecordedMove returned UUID: ${this.idleMoveUuid}`);
+            if (this.robotAudio && this.isIdleLooping) {
+                this.robotAudio.playCue(`move:${entry.moveName}`);
+            }
+            this.lastMoveCheckTime = getTime();
+            this.moveStartTime = getTime();
+        } catch (error) {
+            print(`ReachyMiniController: EXCEPTION in playRecordedMove: ${error}`);
+            // Don't stop looping on error - try another move after the retry delay,
+            // animating procedurally in the meantime when enabled
+            this.idleScheduler.markFinished(entry, getTime());
+            this.idleMoveEntry = null;
+            this.nextIdleMoveTime = getTime() + (this.useProceduralIdle ? this.PROCEDURAL_RETRY_DELAY : this.IDLE_RETRY_DELAY);
+        } finally {
+            this.isIdleMoveStarting = false;
+        }
+
+        // Stopped while the move was starting, stop it right away
+        if (!this.isIdleLooping && this.idleMoveUuid) {
+            this.stopIdleMove();
+        }
+    }
+
+    /**
+     * Check whether the current idle move has finished, then schedule the pause before the next one
+     */
+    private async checkIdleMoveCompletion(): Promise<void> {
+        if (!this.idleMoveUuid || !this.daemonInterface) {
+            return;
+        }
+
+        const currentTime = getTime();
+        if (currentTime - this.lastMoveCheckTime < this.moveCheckInterval) {
+            return; // Throttle checks
+        }
+        this.lastMoveCheckTime = currentTime;
+
+        const daemon = this.daemonInterface as any;
+        const uuid = this.idleMoveUuid;
+        let isFinished = false;
+
+        this.isCheckingIdleMove = true;
+        try {
+            const runningMoves: MoveUUID[] = await daemon.getRunningMoves();
+            isFinished = !runningMoves.some((move) => move.uuid === uuid);
+        } catch (error) {
+            // On error, assume the move is over after the retry delay
+            isFinished = currentTime - this.moveStartTime >= this.IDLE_RETRY_DELAY;
+        } finally {
+            this.isCheckingIdleMove = false;
+        }
+
+        if (isFinished && this.isIdleLooping && this.idleMoveUuid === uuid) {
+            const pause = this.idleScheduler.markFinished(this.idleMoveEntry, getTime());
+            this.idleMoveEntry = null;
+            this.idleMoveUuid = null;
+            this.nextIdleMoveTime = getTime() + pause;
+        }
+    }
+
+    /**
+     * Stop the idle behavior loop and the move it is playing
+     */
+    private stopIdleLoop(): void {
+        this.isIdleLooping = false;
+        this.stopIdleMove();
+        this.stopProceduralIdle();
         
-        // If relative yaw exceeds max, body must catch up urgently
-        if (Math.abs(relativeYaw) > this.MAX_HEAD_YAW) {
-            const excess = Math.abs(relativeYaw) - this.MAX_HEAD_YAW;
-            const bodyDelta = this.dampenChange(
-                Math.sign(relativeYaw) * excess * this.BODY_SMOOTHING * 8,
-                this.MAX_YAW_CHANGE_PER_FRAME
-            );
-            this.bodyYaw += bodyDelta;
+        // Clean up update event, startIdleLoop creates a new one
+        if (this.idleUpdateEvent) {
+            this.removeEvent(this.idleUpdateEvent);
+            this.idleUpdateEvent = null;
+        }
+    }
+
+    /**
+     * Stop the running idle move, if any
+     */
+    private stopIdleMove(): void {
+        if (this.idleMoveUuid && this.daemonInterface) {
+            const daemon = this.daemonInterface as any;
+            const moveName = this.idleMoveEntry ? this.idleMoveEntry.moveName : this.idleMoveUuid;
+            daemon.stopMove(this.idleMoveUuid).catch((error: any) => {
+                print(`ReachyMiniController: Error stopping ${moveName}: ${error}`);
+            });
+        }
+        this.idleMoveUuid = null;
+        this.idleMoveEntry = null;
+    }
+
+    /**
+     * Procedural idle tick: start it from the robot's current pose, then stream its pose every frame
+     */
+    private updateProceduralIdle(): void {
+        const daemon = this.daemonInterface as any;
+        if (this.isProceduralIdleStarting || !daemon || !daemon.streamTarget) {
+            return;
+        }
+        if (!this.isProceduralIdleActive) {
+            this.startProceduralIdle();
+            return;
+        }
+        this.sendTargetPose(daemon, this.proceduralIdle.update(getTime()));
+    }
+
+    /**
+     * Read where the robot is (e.g. where a recorded move ended) and blend the procedural idle in from there
+     */
+    private async startProceduralIdle(): Promise<void> {
+        const generation = ++this.proceduralIdleGeneration;
+        this.isProceduralIdleStarting = true;
+
+        // Use the same limits the daemon interface enforces on outgoing poses
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.getKinematicLimits) {
+            this.proceduralIdle.setLimits(daemon.getKinematicLimits());
+        }
+        const snapshot = await this.readRobotState();
+        if (generation !== this.proceduralIdleGeneration) {
+            return; // Stopped while reading the state
+        }
+        this.isProceduralIdleStarting = false;
+        this.proceduralIdle.start(getTime(), snapshot ? {
+            headPose: snapshot.headPose,
+            bodyYaw: snapshot.bodyYaw,
+            antennas: [snapshot.antennas[0], snapshot.antennas[1]]
+        } : null);
+        this.isProceduralIdleActive = true;
+        print(`ReachyMiniController: Procedural idle started`);
+    }
+
+    /**
+     * Stop streaming the procedural idle, e.g. before a recorded move plays
+     */
+    private stopProceduralIdle(): void {
+        this.proceduralIdleGeneration++;
+        this.isProceduralIdleStarting = false;
+        if (!this.isProceduralIdleActive) {
+            return;
+        }
+        this.isProceduralIdleActive = false;
+
+        // Don't let a stale streamed target land after the recorded move starts
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.clearStreamedTarget) {
+            daemon.clearStreamedTarget();
+        }
+    }
+
+    /**
+     * Start look-at tracking update loop
+     */
+    private async startLookAtTracking(): Promise<void> {
+        if (this.lookAtUpdateEvent) {
+            return; // Already tracking
+        }
+
+        // Use the same limits the daemon interface enforces on outgoing poses
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.getKinematicLimits) {
+            this.lookAtMotion.setSettings(withKinematicLimits(this.lookAtMotion.getSettings(), daemon.getKinematicLimits()));
+        }
+
+        // Start from where the robot actually is so the head doesn't jump
+        const generation = ++this.trackingGeneration;
+        const snapshot = await this.readRobotState();
+        if (generation !== this.trackingGeneration || this.lookAtUpdateEvent
+            || this.currentState !== RobotState.LookAtTarget) {
+            return; // Tracking was stopped or restarted while reading the state
+        }
+
+        if (snapshot) {
+            this.lookAtMotion.reset({
+                headYaw: snapshot.headPose.yaw,
+                headPitch: snapshot.headPose.pitch,
+                headRoll: snapshot.headPose.roll,
+                bodyYaw: snapshot.bodyYaw,
+                // Antennas are [right, left], matching sendTargetPose
+                rightAntenna: snapshot.antennas[0],
+                leftAntenna: snapshot.antennas[1]
+            });
         } else {
-            // Progressive follow - body always moves towards head
-            this.bodyYaw += relativeYaw * followStrength;
+            // State unavailable, fall back to neutral
+            this.lookAtMotion.reset();
         }
-        
-        // Clamp body yaw to mechanical limits
-        this.bodyYaw = this.clamp(this.bodyYaw, -this.MAX_BODY_YAW, this.MAX_BODY_YAW);
-        
-        // Clamp total head yaw
-        const maxTotalYaw = this.MAX_BODY_YAW + this.MAX_HEAD_YAW;
-        this.headYaw = this.clamp(this.headYaw, -maxTotalYaw, maxTotalYaw);
-        
-        // Compute antenna positions - adapt to motion intensity
-        // More motion = more antenna activity
-        const antennaAmplitude = this.ANTENNA_BASE_AMPLITUDE + 
-            this.motionIntensity * this.ANTENNA_MOTION_AMPLITUDE;
-        
-        // Smooth wobble for antennas with motion-adaptive amplitude
-        const leftAntennaWobble = this.computeWobble(t, antennaAmplitude, 0.8, 0.5);
-        const rightAntennaWobble = this.computeWobble(t, antennaAmplitude, 0.6, 2.5);
-        
-        // Add correlation with head yaw (antennas react to looking direction)
-        const desiredLeftAntenna = leftAntennaWobble + this.headYaw * 0.2;
-        const desiredRightAntenna = rightAntennaWobble - this.headYaw * 0.2;
-        
-        // Smooth antenna movement with dampening to prevent jitter
-        const leftDelta = this.dampenChange(
-            (desiredLeftAntenna - this.leftAntenna) * this.ANTENNA_SMOOTHING,
-            this.MAX_ANTENNA_CHANGE_PER_FRAME
-        );
-        const rightDelta = this.dampenChange(
-            (desiredRightAntenna - this.rightAntenna) * this.ANTENNA_SMOOTHING,
-            this.MAX_ANTENNA_CHANGE_PER_FRAME
-        );
-        
-        this.leftAntenna += leftDelta;
-        this.rightAntenna += rightDelta;
-        
-        // Clamp antennas
-        this.leftAntenna = this.clamp(this.leftAntenna, -this.MAX_ANTENNA, this.MAX_ANTENNA);
-        this.rightAntenna = this.clamp(this.rightAntenna, -this.MAX_ANTENNA, this.MAX_ANTENNA);
 
-        // Send to robot via setTarget with wobble always applied on top
-        this.sendTargetPose(daemon, pitchWobble, yawWobble);
+        if (this.attention) {
+            this.attention.reset();
+            this.startAttentionListening();
+        }
+
+        this.lookAtUpdateEvent = this.createEvent("UpdateEvent");
+        this.lookAtUpdateEvent.bind(() => {
+            if (this.currentState === RobotState.LookAtTarget) {
+                this.updateLookAtTarget();
+            }
+        });
     }
-    
+
     /**
-     * Compute temporally consistent wobble using layered sin waves
+     * Read the robot's current state, or null if the daemon could not provide it
      */
-    private computeWobble(t: number, amplitude: number, speedMultiplier: number, phaseOffset: number): number {
-        const speed = this.WOBBLE_SPEED * speedMultiplier;
-        // Layer multiple frequencies for organic feel
-        return amplitude * (
-            0.5 * Math.sin(speed * t + phaseOffset) +
-            0.3 * Math.sin(speed * 1.7 * t + phaseOffset * 0.7) +
-            0.2 * Math.sin(speed * 2.3 * t + phaseOffset * 1.3)
-        );
+    private async readRobotState(): Promise<RobotStateSnapshot | null> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.getRobotState) {
+            return null;
+        }
+        try {
+            return await daemon.getRobotState({timeout: 1.0});
+        } catch (error) {
+            print(`ReachyMiniController: Could not read robot state, starting from neutral: ${error}`);
+            return null;
+        }
     }
-    
+
     /**
-     * Dampen a change to prevent sudden jumps
+     * Stop look-at tracking update loop
      */
-    private dampenChange(delta: number, maxDelta: number): number {
-        return this.clamp(delta, -maxDelta, maxDelta);
+    private stopLookAtTracking(): void {
+        this.trackingGeneration++;
+        if (this.lookAtUpdateEvent) {
+            this.removeEvent(this.lookAtUpdateEvent);
+            this.lookAtUpdateEvent = null;
+        }
+        this.stopAttentionListening();
+
+        // Don't let a stale streamed target land after the next move starts
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.clearStreamedTarget) {
+            daemon.clearStreamedTarget();
+        }
     }
 
     /**
-     * Compute desired yaw and pitch angles to look at target from root position
+     * Update look-at target (called every frame)
+     * Advances the look-at motion by the frame's delta time and streams the result
      */
-    private computeDesiredAngles(): { yaw: number; pitch: number } {
-        // Get world positions
-        const rootTransform = this.roundButton.getSceneObject().getTransform();
-        const rootWorldPos = rootTransform.getWorldPosition();
-        const rootWorldRot = rootTransform.getWorldRotation();
-        const rootOffsetWorld = rootWorldRot.multiplyVec3(this.entityOffset);
-        const centerPos = rootWorldPos.add(rootOffsetWorld);
+    private updateLookAtTarget(): void {
+        if (!this.daemonInterface || !this.roundButton || !this.controlledEntity) {
+            return;
+        }
 
-        const targetTransform = this.controlledEntity.getTransform();
-        const targetPos = targetTransform.getWorldPosition();
+        const daemon = this.daemonInterface as any;
+        if (!daemon.streamTarget) {
+            return;
+        }
+
+        const output = this.lookAtMotion.update(this.computeLookDirection(this.getLookAtPoint()), getDeltaTime());
+        this.sendTargetPose(daemon, output);
+    }
+
+    /**
+     * World point to look at: the attention manager's gaze point, else the controlled entity
+     */
+    private getLookAtPoint(): vec3 {
+        const gazePoint = this.attention ? this.attention.update(getTime(), getDeltaTime()) : null;
+        return gazePoint ?? this.controlledEntity.getTransform().getWorldPosition();
+    }
 
+    /**
+     * Compute the direction from the robot's head to a world point, in the robot frame
+     */
+    private computeLookDirection(targetPos: vec3): vec3 {
         // Calculate direction from center to target
-        const direction = targetPos.sub(centerPos);
-        const horizontalDist = Math.sqrt(direction.x * direction.x + direction.z * direction.z);
+        return this.toRobotDirection(targetPos.sub(this.getRobotHeadPosition()));
+    }
+
+    /**
+     * Set up the attention manager with the built-in providers: the controlled entity, the wearer's head,
+     * tagged scene objects, and optionally the hands and speech
+     */
+    private createAttention(): AttentionManager {
+        const attention = new AttentionManager();
+        attention.addProvider(new PointAttentionProvider("entity",
+            () => this.controlledEntity && this.controlledEntity.enabled ? this.controlledEntity.getTransform().getWorldPosition() : null,
+            1.0, 1.0, 0.25));
+        const camera = this.attentionCamera ?? this.teleopCamera;
+        if (camera) {
+            attention.addProvider(new PointAttentionProvider("wearer", () => camera.getTransform().getWorldPosition(), 1.0, 0.8, 0.3));
+        }
+        attention.addProvider(new TaggedObjectAttentionProvider());
+        if (this.attendToHands) {
+            attention.addProvider(new HandAttentionProvider());
+        }
+        if (this.attendToSound) {
+            this.soundAttention = new SoundAttentionProvider();
+            attention.addProvider(this.soundAttention);
+        }
+        return attention;
+    }
 
-        if (horizontalDist < 0.001) {
-            // Target directly above/below, maintain current yaw
-            return { yaw: this.headYaw, pitch: direction.y > 0 ? this.MAX_PITCH : this.MIN_PITCH };
+    /**
+     * Poll the sound direction while looking around so speech draws the robot's attention
+     */
+    private startAttentionListening(): void {
+        const daemon = this.daemonInterface as any;
+        if (!this.soundAttention || this.stopAttentionDoaSubscription || !daemon || !daemon.subscribeDirectionOfArrival) {
+            return;
         }
+        this.soundAttention.clear();
+        this.stopAttentionDoaSubscription = daemon.subscribeDirectionOfArrival(this.doaRateHz, (direction: DirectionOfArrival) => {
+            if (!direction.speechDetected || !this.soundAttention || this.currentState !== RobotState.LookAtTarget) {
+                return;
+            }
+            // The microphone array turns with the head, so the direction is relative to the current head yaw
+            const yaw = this.lookAtMotion.getState().headYaw + direction.yaw;
+            const robotDirection = new vec3(Math.sin(yaw), 0, Math.cos(yaw));
+            const worldDirection = robotToWorldDirection(this.getActiveRobotFrame(), robotDirection);
+            this.soundAttention.report(this.getRobotHeadPosition().add(worldDirection.uniformScale(this.SOUND_SOURCE_DISTANCE)), getTime());
+        });
+    }
 
-        // Yaw: horizontal angle (atan2 of x/z gives angle from forward direction)
-        const yaw = Math.atan2(direction.x, direction.z);
-        
-        // Pitch: vertical angle (negative because looking down = negative pitch)
-        const pitch = -Math.atan2(direction.y, horizontalDist);
+    private stopAttentionListening(): void {
+        if (this.stopAttentionDoaSubscription) {
+            this.stopAttentionDoaSubscription();
+            this.stopAttentionDoaSubscription = null;
+        }
+    }
 
-        return { yaw, pitch };
+    /**
+     * The calibrated robot frame, else one placed by the anchor: at the button origin plus the entity offset,
+     * facing the button's forward. Without a button the anchor is the world origin.
+     */
+    private getActiveRobotFrame(): RobotFrame {
+        return fromAnchoredRobotFrame(this.anchoredFrame ?? {offset: this.entityOffset, yaw: 0}, this.getAnchorPose());
     }
 
     /**
-     * Send current head/body pose to robot (fire-and-forget)
+     * World position of the robot's head
      */
-    private sendTargetPose(daemon: any, pitchWobble: number = 0, yawWobble: number = 0): void {
-        // Apply wobble to add character
-        const finalPitch = this.clamp(
-            this.headPitch + pitchWobble,
-            this.MIN_PITCH,
-            this.MAX_PITCH
-        );
-        const finalYaw = this.headYaw + yawWobble;
-        const finalRoll = this.clamp(this.headRoll, -this.MAX_ROLL, this.MAX_ROLL);
-        
-        // Head yaw is the total yaw (includes body rotation + relative rotation)
-        // The robot's IK expects head pose in world frame
-        const headPose: XYZRPYPose = {
-            x: 0,
-            y: 0,
-            z: 0,
-            roll: finalRoll,
-            pitch: finalPitch,
-            yaw: finalYaw
+    private getRobotHeadPosition(): vec3 {
+        return this.getActiveRobotFrame().position;
+    }
+
+    /**
+     * Rotate a world direction into the robot frame
+     */
+    private toRobotDirection(direction: vec3): vec3 {
+        return worldToRobotDirection(this.getActiveRobotFrame(), direction);
+    }
+
+    /**
+     * Convert a world point into the robot frame
+     */
+    private toRobotPoint(point: vec3): vec3 {
+        return worldToRobotPoint(this.getActiveRobotFrame(), point);
+    }
+
+    /**
+     * Start mirroring the wearer's head onto the robot, recentered on the current head orientation
+     */
+    private async startTeleop(): Promise<void> {
+        if (this.teleopUpdateEvent || !this.teleopCamera) {
+            return;
+        }
+
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.getKinematicLimits) {
+            this.teleopMotion.setSettings(withKinematicLimits(this.teleopMotion.getSettings(), daemon.getKinematicLimits()));
+        }
+
+        const generation = ++this.teleopGeneration;
+        const snapshot = await this.readRobotState();
+        if (generation !== this.teleopGeneration || this.teleopUpdateEvent
+            || this.currentState !== RobotState.Teleop) {
+            return; // Teleop was stopped or restarted while reading the state
+        }
+
+        if (snapshot) {
+            this.teleopMotion.reset({
+                headYaw: snapshot.headPose.yaw,
+                headPitch: snapshot.headPose.pitch,
+                headRoll: snapshot.headPose.roll,
+                bodyYaw: snapshot.bodyYaw,
+                rightAntenna: snapshot.antennas[0],
+                leftAntenna: snapshot.antennas[1]
+            });
+        } else {
+            this.teleopMotion.reset();
+        }
+        this.recenterTeleop();
+        this.isTeleopHolding = false;
+
+        this.teleopUpdateEvent = this.createEvent("UpdateEvent");
+        this.teleopUpdateEvent.bind(() => {
+            if (this.currentState === RobotState.Teleop) {
+                this.updateTeleop();
+            }
+        });
+    }
+
+    /**
+     * Stop mirroring the wearer's head
+     */
+    private stopTeleop(): void {
+        this.teleopGeneration++;
+        if (this.teleopUpdateEvent) {
+            this.removeEvent(this.teleopUpdateEvent);
+            this.teleopUpdateEvent = null;
+        }
+
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.clearStreamedTarget) {
+            daemon.clearStreamedTarget();
+        }
+    }
+
+    /**
+     * Teleop tick (called every frame): stream the wearer's head pose while the deadman is held
+     */
+    private updateTeleop(): void {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.streamTarget) {
+            return;
+        }
+
+        // Without a deadman switch the robot always follows
+        const isEngaged = !this.deadmanSwitch || this.deadmanSwitch.isOn;
+        if (!isEngaged) {
+            if (!this.isTeleopHolding) {
+                // Hold the last pose: drop any target not yet sent
+                this.isTeleopHolding = true;
+                daemon.clearStreamedTarget();
+            }
+            return;
+        }
+        this.isTeleopHolding = false;
+
+        const angles = this.headTeleop.computeAngles(this.teleopCamera.getTransform().getWorldRotation());
+        const output = this.teleopMotion.updateTowards(angles.yaw, angles.pitch, getDeltaTime(), angles.roll);
+        this.sendTargetPose(daemon, output);
+    }
+
+    /**
+     * Start driving the robot with pinch gestures near its head, from the robot's current pose
+     */
+    private async startHandControl(): Promise<void> {
+        if (this.handControlUpdateEvent) {
+            return;
+        }
+
+        // Use the same limits the daemon interface enforces on outgoing poses
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.getKinematicLimits) {
+            this.handManipulation.setLimits(daemon.getKinematicLimits());
+        }
+
+        const generation = ++this.handControlGeneration;
+        const snapshot = await this.readRobotState();
+        if (generation !== this.handControlGeneration || this.handControlUpdateEvent
+            || this.currentState !== RobotState.HandControl) {
+            return; // Hand control was stopped or restarted while reading the state
+        }
+
+        if (snapshot) {
+            this.handManipulation.reset(snapshot.headPose.yaw, snapshot.headPose.pitch, snapshot.headPose.roll,
+                (snapshot.antennas[0] + snapshot.antennas[1]) / 2);
+        } else {
+            this.handManipulation.reset(0, 0, 0, 0);
+        }
+
+        this.handControlUpdateEvent = this.createEvent("UpdateEvent");
+        this.handControlUpdateEvent.bind(() => {
+            if (this.currentState === RobotState.HandControl) {
+                this.updateHandControl();
+            }
+        });
+    }
+
+    /**
+     * Stop driving the robot with hand gestures
+     */
+    private stopHandControl(): void {
+        this.handControlGeneration++;
+        if (this.handControlUpdateEvent) {
+            this.removeEvent(this.handControlUpdateEvent);
+            this.handControlUpdateEvent = null;
+        }
+
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.clearStreamedTarget) {
+            daemon.clearStreamedTarget();
+        }
+    }
+
+    /**
+     * Hand control tick (called every frame): advance the gestures and stream the resulting pose
+     */
+    private updateHandControl(): void {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.streamTarget || !this.roundButton) {
+            return;
+        }
+
+        const output = this.handManipulation.update(this.sampleHand(), this.toRobotPoint(this.getRobotHeadPosition()), getDeltaTime());
+        this.sendTargetPose(daemon, output);
+    }
+
+    /**
+     * Read the manipulation hand's keypoints from hand tracking in the robot frame, or null when it is not tracked
+     */
+    private sampleHand(): HandSample | null {
+        const hand = SIK.HandInputData.getHand(this.manipulationHand === "left" ? "left" : "right");
+        if (!hand || !hand.isTracked()) {
+            return null;
+        }
+        return {
+            thumbTip: this.toRobotPoint(hand.thumbTip.position),
+            indexTip: this.toRobotPoint(hand.indexTip.position),
+            middleTip: this.toRobotPoint(hand.middleTip.position),
+            wristRight: this.toRobotDirection(hand.wrist.right),
+            wristForward: this.toRobotDirection(hand.wrist.forward)
         };
-        
-        // Antennas: [right, left] in radians
-        const antennas: [number, number] = [this.rightAntenna, this.leftAntenna];
+    }
+
+    /**
+     * Start listening: poll the sound direction and turn towards speech
+     */
+    private async startListening(): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (this.listenUpdateEvent || !daemon || !daemon.subscribeDirectionOfArrival) {
+            return;
+        }
+        if (daemon.getKinematicLimits) {
+            this.lookAtMotion.setSettings(withKinematicLimits(this.lookAtMotion.getSettings(), daemon.getKinematicLimits()));
+        }
+
+        const generation = ++this.listenGeneration;
+        const snapshot = await this.readRobotState();
+        if (generation !== this.listenGeneration || this.listenUpdateEvent
+            || this.currentState !== RobotState.Listening) {
+            return; // Listening was stopped or restarted while reading the state
+        }
+
+        if (snapshot) {
+            this.lookAtMotion.reset({
+                headYaw: snapshot.headPose.yaw,
+                headPitch: snapshot.headPose.pitch,
+                headRoll: snapshot.headPose.roll,
+                bodyYaw: snapshot.bodyYaw,
+                rightAntenna: snapshot.antennas[0],
+                leftAntenna: snapshot.antennas[1]
+            });
+        } else {
+            this.lookAtMotion.reset();
+        }
+        this.listenTargetYaw = null;
+
+        this.stopDoaSubscription = daemon.subscribeDirectionOfArrival(this.doaRateHz, (direction: DirectionOfArrival) => {
+            this.handleDirectionOfArrival(direction);
+        });
+        this.listenUpdateEvent = this.createEvent("UpdateEvent");
+        this.listenUpdateEvent.bind(() => {
+            if (this.currentState === RobotState.Listening) {
+                this.updateListening();
+            }
+        });
+    }
+
+    /**
+     * Stop polling the sound direction and turning towards it
+     */
+    private stopListening(): void {
+        this.listenGeneration++;
+        if (this.stopDoaSubscription) {
+            this.stopDoaSubscription();
+            this.stopDoaSubscription = null;
+        }
+        if (this.listenUpdateEvent) {
+            this.removeEvent(this.listenUpdateEvent);
+            this.listenUpdateEvent = null;
+        }
+        this.listenTargetYaw = null;
+
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.clearStreamedTarget) {
+            daemon.clearStreamedTarget();
+        }
+    }
+
+    /**
+     * Aim at the direction speech came from. The microphone array turns with the head,
+     * so the direction is relative to the current head yaw.
+     */
+    private handleDirectionOfArrival(direction: DirectionOfArrival): void {
+        if (!direction.speechDetected || this.currentState !== RobotState.Listening) {
+            return;
+        }
+        const targetYaw = this.lookAtMotion.getState().headYaw + direction.yaw;
+        if (this.listenTargetYaw !== null && Math.abs(targetYaw - this.listenTargetYaw) < this.LISTEN_MIN_TURN) {
+            return;
+        }
+        this.listenTargetYaw = targetYaw;
+        this.showSoundIndicator(targetYaw);
+    }
+
+    /**
+     * Listening tick (called every frame): turn head and body towards the last speech direction
+     */
+    private updateListening(): void {
+        const daemon = this.daemonInterface as any;
+        if (this.listenTargetYaw === null || !daemon || !daemon.streamTarget) {
+            return; // Nothing heard yet, keep the current pose
+        }
+        const output = this.lookAtMotion.updateTowards(this.listenTargetYaw, 0, getDeltaTime());
+        this.sendTargetPose(daemon, output);
+    }
+
+    /**
+     * Briefly show the sound indicator around the robot's head in the direction of the sound
+     * @param yaw Direction as a robot yaw (0 = front, positive = left)
+     */
+    private showSoundIndicator(yaw: number): void {
+        if (!this.soundIndicator || !this.roundButton) {
+            return;
+        }
 
-        // Fire-and-forget: don't await, just catch errors silently
-        daemon.setTarget(headPose, this.bodyYaw, antennas).catch(() => {
-            // Silently ignore errors to avoid log spam at 60fps
+        // Robot frame: the robot faces +Z and its left is +X
+        const robotDirection = new vec3(Math.sin(yaw), 0, Math.cos(yaw));
+        const direction = robotToWorldDirection(this.getActiveRobotFrame(), robotDirection);
+        const transform = this.soundIndicator.getTransform();
+        transform.setWorldPosition(this.getRobotHeadPosition().add(direction.uniformScale(this.soundIndicatorDistance)));
+        this.soundIndicator.enabled = true;
+
+        if (this.soundIndicatorAnimation) {
+            this.soundIndicatorAnimation();
+        }
+        const scale = new vec3(1, 1, 1);
+        this.soundIndicatorAnimation = animate({
+            duration: this.soundIndicatorDuration,
+            easing: "ease-out-quad",
+            update: (t: number) => {
+                // Pop in, then shrink away
+                transform.setLocalScale(scale.uniformScale(t < 0.2 ? t / 0.2 : 1 - (t - 0.2) / 0.8));
+            },
+            ended: () => {
+                this.soundIndicator.enabled = false;
+                this.soundIndicatorAnimation = null;
+            }
         });
     }
 
+    /**
+     * Send a head/body pose to robot through the daemon's target stream
+     */
+    private sendTargetPose(daemon: any, output: LookAtMotionOutput): void {
+        // Head yaw is the total yaw (includes body rotation + relative rotation)
+        // The robot's IK expects head pose in world frame; antennas are [right, left] in radians
+        // The daemon interface keeps only the latest target and sends it at its stream rate
+        daemon.streamTarget(output.headPose, output.bodyYaw, output.antennas);
+    }
+
     // -----------------------------------------------------------------------------------------
     // Helpers
     // -----------------------------------------------------------------------------------------
 
-    /** Clamp a value between min and max */
-    private clamp(val: number, min: number, max: number): number {
-        return Math.max(min, Math.min(max, val));
-    }
-
     /** Linearly interpolate between two vec3 values */
     private lerpVec3(start: vec3, end: vec3, t: number): vec3 {
         return new vec3(
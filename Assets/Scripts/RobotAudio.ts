@@ -0,0 +1,102 @@
+import {AudioPriority, AudioQueue} from "./AudioQueue"
+
+/**
+ * Plays sounds on the robot's speaker through DaemonInterface.playAudio, one at a time.
+ * Cues attach clips to triggers raised by other components:
+ * "enter:<State>" / "exit:<State>" for controller state transitions (e.g. "enter:LookAtTarget")
+ * and "move:<moveName>" when a recorded move starts (e.g. "move:attentive2").
+ */
+@component
+export class RobotAudio extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("Trigger of each cue: enter:<State>, exit:<State> or move:<moveName>")
+    private cueTriggers: string[] = ["enter:LookAtTarget"];
+
+    @input
+    @hint("Clip played for each cue, in the same order")
+    private cueClips: string[] = ["chirp.wav"];
+
+    @input
+    @hint("Priority of each cue: 0 = low (dropped when busy), 1 = normal, 2 = high (default 1)")
+    private cuePriorities: number[] = [1];
+
+    @input
+    @hint("Seconds each cue occupies the speaker (default: defaultClipDuration)")
+    private cueDurations: number[] = [];
+
+    @input
+    @hint("Seconds a clip is assumed to play when its duration is not given")
+    private defaultClipDuration: number = 1.5;
+
+    @input
+    @hint("Sounds waiting at most; the lowest priority is dropped beyond this")
+    private maxQueueLength: number = 3;
+
+    @input
+    @hint("Seconds a queued sound may wait before it is dropped as stale")
+    private maxWait: number = 3.0;
+
+    private queue: AudioQueue | null = null;
+
+    onAwake() {
+        this.queue = new AudioQueue(
+            (request) => (this.daemonInterface as any).playAudio(request.file),
+            {maxQueueLength: Math.max(0, this.maxQueueLength), maxWait: this.maxWait}
+        );
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.queue.tick(getTime());
+        });
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Queue a clip on the robot's speaker
+     * @param duration Seconds the clip occupies the speaker (default: defaultClipDuration)
+     * @returns false if the request was dropped
+     */
+    public play(file: string, priority: AudioPriority = AudioPriority.Normal, duration?: number): boolean {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.playAudio || !this.queue) {
+            return false;
+        }
+        const accepted = this.queue.enqueue(file, priority, duration ?? this.defaultClipDuration, getTime());
+        if (!accepted) {
+            print(`RobotAudio: Dropped ${file}, speaker busy`);
+        }
+        return accepted;
+    }
+
+    /**
+     * Play the clip attached to a trigger, if any
+     * @returns true if a cue is attached and was queued
+     */
+    public playCue(trigger: string): boolean {
+        const index = this.cueTriggers.indexOf(trigger);
+        if (index < 0 || !this.cueClips[index]) {
+            return false;
+        }
+        const priority = this.valueAt(this.cuePriorities, index, AudioPriority.Normal);
+        return this.play(this.cueClips[index], priority, this.valueAt(this.cueDurations, index, this.defaultClipDuration));
+    }
+
+    /**
+     * Drop every queued sound (the playing one finishes)
+     */
+    public clearQueue(): void {
+        if (this.queue) {
+            this.queue.clear();
+        }
+    }
+
+    private valueAt<T>(values: T[], index: number, fallback: T): T {
+        return values && index < values.length && values[index] !== undefined ? values[index] : fallback;
+    }
+}
@@ -0,0 +1,225 @@
+/** Version written by serializeAnchoredRobotFrame (1 stored world coordinates, which don't survive a restart) */
+export const CALIBRATION_FORMAT_VERSION: number = 2;
+
+/**
+ * Where the robot stands in the lens world: the world position of its head and the world yaw
+ * of its forward axis (0 = facing world +Z, positive = turned towards world +X).
+ */
+export interface RobotFrame {
+    position: vec3;
+    yaw: number;
+}
+
+/**
+ * A robot frame relative to the placed anchor, the form it is saved in. The lens world origin changes
+ * every session while the anchor is placed on the robot again, so only the offset from it stays valid.
+ */
+export interface AnchoredRobotFrame {
+    offset: vec3; // Head position in the anchor's local space
+    yaw: number; // Yaw relative to the anchor's forward axis
+}
+
+/**
+ * World pose of the anchor the robot frame is attached to.
+ */
+export interface AnchorPose {
+    position: vec3;
+    rotation: quat;
+}
+
+/**
+ * One calibration measurement: the robot's head aimed at a known world point.
+ */
+export interface CalibrationSample {
+    target: vec3; // World position the head was aimed at
+    headYaw: number; // Total head yaw read from the robot (robot frame, positive = left)
+    headPitch: number; // Head pitch read from the robot (negative = looking up)
+}
+
+/**
+ * Solved robot frame and how well it explains the samples.
+ */
+export interface CalibrationResult {
+    frame: RobotFrame;
+    residual: number; // RMS angle between measured and predicted head directions, radians
+}
+
+/** Iterations alternating between the yaw and the position fit */
+const SOLVER_ITERATIONS: number = 10;
+
+/** Bearing lines closer to parallel than this don't pin the position down */
+const MIN_DETERMINANT: number = 1e-3;
+
+/**
+ * Rotate a world direction into the robot frame (+Z forward, +X the robot's left)
+ */
+export function worldToRobotDirection(frame: RobotFrame, direction: vec3): vec3 {
+    const cos = Math.cos(frame.yaw);
+    const sin = Math.sin(frame.yaw);
+    return new vec3(direction.x * cos - direction.z * sin, direction.y, direction.x * sin + direction.z * cos);
+}
+
+/**
+ * Rotate a robot-frame direction back into the world
+ */
+export function robotToWorldDirection(frame: RobotFrame, direction: vec3): vec3 {
+    const cos = Math.cos(frame.yaw);
+    const sin = Math.sin(frame.yaw);
+    return new vec3(direction.x * cos + direction.z * sin, direction.y, -direction.x * sin + direction.z * cos);
+}
+
+/**
+ * Convert a world point into the robot frame, relative to the robot's head
+ */
+export function worldToRobotPoint(frame: RobotFrame, point: vec3): vec3 {
+    return worldToRobotDirection(frame, point.sub(frame.position));
+}
+
+/**
+ * Fit the robot frame to calibration samples.
+ * One sample only fixes the yaw, keeping the anchor position. With two or more samples at different
+ * bearings the head position is triangulated as well, and its height follows from the pitches.
+ * @param anchorPosition Head position estimated from the AR anchor, the starting point of the fit
+ * @returns The fitted frame, or null without samples
+ */
+export function solveRobotFrame(samples: CalibrationSample[], anchorPosition: vec3): CalibrationResult | null {
+    if (samples.length === 0) {
+        return null;
+    }
+
+    let x = anchorPosition.x;
+    let z = anchorPosition.z;
+    let yaw = 0;
+    for (let iteration = 0; iteration < SOLVER_ITERATIONS; iteration++) {
+        // Yaw: circular mean of the offset between each target's world bearing and the measured head yaw
+        let sinSum = 0;
+        let cosSum = 0;
+        samples.forEach((sample) => {
+            const offset = Math.atan2(sample.target.x - x, sample.target.z - z) - sample.headYaw;
+            sinSum += Math.sin(offset);
+            cosSum += Math.cos(offset);
+        });
+        yaw = Math.atan2(sinSum, cosSum);
+
+        if (samples.length < 2) {
+            break;
+        }
+
+        // Position: least-squares point closest to all bearing lines through the targets
+        let a11 = 0, a12 = 0, a22 = 0, b1 = 0, b2 = 0;
+        samples.forEach((sample) => {
+            const bearing = sample.headYaw + yaw;
+            const ux = Math.sin(bearing);
+            const uz = Math.cos(bearing);
+            // Projection onto the line's normal: I - u u^T
+            const p11 = 1 - ux * ux;
+            const p12 = -ux * uz;
+            const p22 = 1 - uz * uz;
+            a11 += p11;
+            a12 += p12;
+            a22 += p22;
+            b1 += p11 * sample.target.x + p12 * sample.target.z;
+            b2 += p12 * sample.target.x + p22 * sample.target.z;
+        });
+        const determinant = a11 * a22 - a12 * a12;
+        if (determinant < MIN_DETERMINANT * samples.length) {
+            break; // All targets in the same direction, keep the anchor position
+        }
+        x = (a22 * b1 - a12 * b2) / determinant;
+        z = (a11 * b2 - a12 * b1) / determinant;
+    }
+
+    // Height: looking up (negative pitch) means the target is above the head
+    let y = anchorPosition.y;
+    if (samples.length >= 2) {
+        y = samples.reduce((sum, sample) => {
+            const distance = Math.sqrt((sample.target.x - x) ** 2 + (sample.target.z - z) ** 2);
+            return sum + sample.target.y + Math.tan(sample.headPitch) * distance;
+        }, 0) / samples.length;
+    }
+
+    const frame: RobotFrame = {position: new vec3(x, y, z), yaw: yaw};
+    return {frame: frame, residual: computeResidual(frame, samples)};
+}
+
+/**
+ * Express a world robot frame relative to the anchor
+ */
+export function toAnchoredRobotFrame(frame: RobotFrame, anchor: AnchorPose): AnchoredRobotFrame {
+    return {
+        offset: anchor.rotation.invert().multiplyVec3(frame.position.sub(anchor.position)),
+        yaw: wrapAngle(frame.yaw - getAnchorYaw(anchor))
+    };
+}
+
+/**
+ * Recompose the world robot frame from its offset and the anchor's current pose
+ */
+export function fromAnchoredRobotFrame(frame: AnchoredRobotFrame, anchor: AnchorPose): RobotFrame {
+    return {
+        position: anchor.position.add(anchor.rotation.multiplyVec3(frame.offset)),
+        yaw: wrapAngle(frame.yaw + getAnchorYaw(anchor))
+    };
+}
+
+/**
+ * Serialize an anchored robot frame to versioned JSON for persistent storage
+ */
+export function serializeAnchoredRobotFrame(frame: AnchoredRobotFrame): string {
+    return JSON.stringify({
+        version: CALIBRATION_FORMAT_VERSION,
+        offset: [frame.offset.x, frame.offset.y, frame.offset.z],
+        yaw: frame.yaw
+    });
+}
+
+/**
+ * Parse an anchored robot frame written by serializeAnchoredRobotFrame
+ * @throws Error if the JSON is invalid, from an older or newer format version, or incomplete
+ */
+export function parseAnchoredRobotFrame(json: string): AnchoredRobotFrame {
+    const data = JSON.parse(json);
+    if (!data || typeof data !== "object") {
+        throw new Error(`Calibration must be a JSON object`);
+    }
+    const version = typeof data.version === "number" ? data.version : 1;
+    if (version > CALIBRATION_FORMAT_VERSION) {
+        throw new Error(`Calibration format version ${version} is newer than supported version ${CALIBRATION_FORMAT_VERSION}`);
+    }
+    if (version < 2) {
+        throw new Error(`Calibration format version ${version} stored world coordinates from another session, calibrate again`);
+    }
+    const offset = data.offset;
+    const isNumber = (value: any) => typeof value === "number" && isFinite(value);
+    if (!Array.isArray(offset) || offset.length !== 3 || !offset.every(isNumber) || !isNumber(data.yaw)) {
+        throw new Error(`Calibration needs an "offset" [x, y, z] and a "yaw"`);
+    }
+    return {offset: new vec3(offset[0], offset[1], offset[2]), yaw: data.yaw};
+}
+
+/**
+ * World yaw of the anchor's forward axis, in the same convention as RobotFrame.yaw
+ */
+function getAnchorYaw(anchor: AnchorPose): number {
+    const forward = anchor.rotation.multiplyVec3(vec3.forward());
+    return Math.atan2(forward.x, forward.z);
+}
+
+/**
+ * RMS angle between the measured head directions and the directions the frame predicts
+ */
+function computeResidual(frame: RobotFrame, samples: CalibrationSample[]): number {
+    const sum = samples.reduce((total, sample) => {
+        const local = worldToRobotPoint(frame, sample.target);
+        const horizontal = Math.sqrt(local.x * local.x + local.z * local.z);
+        const yawError = wrapAngle(Math.atan2(local.x, local.z) - sample.headYaw);
+        const pitchError = -Math.atan2(local.y, horizontal) - sample.headPitch;
+        return total + yawError * yawError + pitchError * pitchError;
+    }, 0);
+    return Math.sqrt(sum / samples.length);
+}
+
+/** Wrap an angle to [-PI, PI] */
+function wrapAngle(angle: number): number {
+    return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
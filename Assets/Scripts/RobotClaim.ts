@@ -0,0 +1,57 @@
+import {ReachyMiniController} from "./ReachyMiniController"
+
+/**
+ * A component's hold on the robot: takes it from the controller's idle loop through the Replaying state,
+ * so the component's own moves aren't overridden, and hands it back to Idle when done.
+ */
+export class RobotClaim {
+    private controller: ReachyMiniController | undefined;
+    private isHeld: boolean = false;
+    private isClaiming: boolean = false;
+
+    constructor(controller: ReachyMiniController | undefined) {
+        this.controller = controller;
+    }
+
+    /**
+     * Take the robot, or keep it if already held
+     * @returns false if there is no controller or it is busy in another mode
+     */
+    public async claim(): Promise<boolean> {
+        if (this.isHeld && !this.wasTakenOver()) {
+            return true;
+        }
+        if (!this.controller || this.isClaiming) {
+            return false;
+        }
+        this.isClaiming = true;
+        this.isHeld = await this.controller.startReplay();
+        this.isClaiming = false;
+        return this.isHeld;
+    }
+
+    /**
+     * Hand the robot back to the controller's idle loop
+     */
+    public release(): void {
+        if (this.isHeld) {
+            this.isHeld = false;
+            this.controller.finishReplay();
+        }
+    }
+
+    public isHolding(): boolean {
+        return this.isHeld;
+    }
+
+    /**
+     * Check whether another mode took the robot over since it was claimed; the hold is dropped if so
+     */
+    public wasTakenOver(): boolean {
+        if (this.isHeld && !this.controller.isReplaying()) {
+            this.isHeld = false;
+            return true;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,82 @@
+import {DaemonInterface, XYZRPYPose} from "./DaemonInterface"
+import {RobotRegistry} from "./RobotRegistry"
+
+/**
+ * Outcome of a group command on one robot.
+ */
+export interface GroupCommandResult {
+    robotId: string;
+    uuid: string | null; // Move UUID when the command started a move
+    error: any | null; // Why the command failed on this robot, null on success
+}
+
+/**
+ * Sends the same command to several registered robots at once.
+ * All requests go out in the same frame, so the robots start their moves together; a robot that
+ * is missing or disconnected is reported in the results and does not hold back the others.
+ * Commands go straight to each robot's daemon: take the robots from their controllers' idle loops first
+ * (see RobotClaim), or an Idle controller overrides the move right away.
+ */
+export class RobotGroup {
+    private robotIds: string[];
+
+    /**
+     * @param robotIds Robots to command; empty means every robot in the registry
+     */
+    constructor(robotIds: string[] = []) {
+        this.robotIds = robotIds.filter((id) => id.length > 0);
+    }
+
+    public getRobotIds(): string[] {
+        return this.robotIds.length > 0 ? [...this.robotIds] : RobotRegistry.getIds();
+    }
+
+    public setRobotIds(robotIds: string[]): void {
+        this.robotIds = robotIds.filter((id) => id.length > 0);
+    }
+
+    /**
+     * Move every robot to the same pose (see DaemonInterface.goto)
+     */
+    public goto(headPose: XYZRPYPose, bodyYaw?: number, duration: number = 0.5, interpolation: string = "minjerk", antennas: [number, number] = [0, 0]): Promise<GroupCommandResult[]> {
+        return this.sendToAll((robot) => robot.goto(headPose, bodyYaw, duration, interpolation, antennas));
+    }
+
+    /**
+     * Play the same recorded move on every robot
+     */
+    public playRecordedMove(datasetName: string, moveName: string): Promise<GroupCommandResult[]> {
+        return this.sendToAll((robot) => robot.playRecordedMove(datasetName, moveName));
+    }
+
+    /**
+     * Stop the moves running on every robot
+     */
+    public stopAllMoves(): Promise<GroupCommandResult[]> {
+        return this.sendToAll(async (robot) => {
+            await robot.stopAllMoves();
+            return null;
+        });
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private sendToAll(command: (robot: DaemonInterface) => Promise<string | null>): Promise<GroupCommandResult[]> {
+        return Promise.all(this.getRobotIds().map(async (robotId): Promise<GroupCommandResult> => {
+            const robot = RobotRegistry.get(robotId);
+            if (!robot) {
+                return {robotId: robotId, uuid: null, error: new Error(`robot ${robotId} is not registered`)};
+            }
+            if (!robot.isConnected()) {
+                return {robotId: robotId, uuid: null, error: new Error(`robot ${robotId} is disconnected`)};
+            }
+            try {
+                return {robotId: robotId, uuid: await command(robot), error: null};
+            } catch (error) {
+                return {robotId: robotId, uuid: null, error: error};
+            }
+        }));
+    }
+}
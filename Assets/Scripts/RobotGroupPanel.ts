@@ -0,0 +1,188 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {ReachyMiniController} from "./ReachyMiniController"
+import {RobotClaim} from "./RobotClaim"
+import {GroupCommandResult, RobotGroup} from "./RobotGroup"
+import {RobotRegistry} from "./RobotRegistry"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility} from "./UIPanel"
+
+/**
+ * Group commands: plays the same recorded move, or returns to neutral, on several robots in sync,
+ * and lists the registered robots with their connection status.
+ * Group commands first take the robots from their controllers' idle loops, so the idle behavior
+ * doesn't override the group moves; Stop or closing the panel hands them back.
+ */
+@component
+export class RobotGroupPanel extends BaseScriptComponent {
+    @input
+    @hint("Ids of the robots in the group (empty = every registered robot)")
+    private robotIds: string[] = [];
+
+    @input
+    @hint("Controllers of the robots in the group, paused during group commands so the robots stay in sync")
+    private controllers: ReachyMiniController[] = [];
+
+    @input
+    @hint("Optional UIFrameAnimator of the panel's frame, toggled by the open button")
+    private frameAnimator: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the group panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Dataset the group moves are played from")
+    private datasetName: string = "pollen-robotics/reachy-mini-dances-library";
+
+    @input
+    @hint("Move played by each move button, in the same order")
+    private moveNames: string[] = [];
+
+    @input
+    @hint("One button per group move")
+    private moveButtons: RectangleButton[] = [];
+
+    @input
+    @hint("Button moving every robot to the neutral pose")
+    private neutralButton: RectangleButton;
+
+    @input
+    @hint("Button stopping the moves on every robot")
+    private stopButton: RectangleButton;
+
+    @input
+    @hint("Text listing the robots in the group and their connection status")
+    private robotsLabel: Text;
+
+    @input
+    @hint("Text showing the result of the last group command")
+    private statusLabel!: Text;
+
+    private group: RobotGroup = new RobotGroup();
+    private robotClaims: RobotClaim[] = [];
+    private visibility: PanelVisibility;
+    private isSending: boolean = false;
+    private nextRobotsRefreshTime: number = 0;
+    private readonly ROBOTS_REFRESH_INTERVAL: number = 1.0;
+
+    onAwake() {
+        this.group.setRobotIds(this.robotIds);
+        this.robotClaims = this.controllers.filter((controller) => !!controller)
+            .map((controller) => new RobotClaim(controller));
+
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        this.moveButtons.forEach((button, index) => {
+            if (button) {
+                button.onTriggerUp.add(() => this.playMove(index));
+            }
+        });
+        if (this.neutralButton) {
+            this.neutralButton.onTriggerUp.add(() => this.send("Neutral",
+                () => this.group.goto({x: 0, y: 0, z: 0, roll: 0, pitch: 0, yaw: 0}, 0, 1.0, "minjerk", [0, 0])));
+        }
+        if (this.stopButton) {
+            this.stopButton.onTriggerUp.add(async () => {
+                await this.send("Stop", () => this.group.stopAllMoves());
+                this.releaseRobots();
+            });
+        }
+
+        RobotRegistry.onRobotsChanged.add(() => this.renderRobots());
+        this.createEvent("UpdateEvent").bind(() => {
+            if (getTime() >= this.nextRobotsRefreshTime) {
+                this.renderRobots();
+            }
+            if (!this.visibility.isVisible() && !this.isSending) {
+                this.releaseRobots();
+            }
+        });
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the panel
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Get the group, e.g. to send other synchronized commands from another component
+     */
+    public getGroup(): RobotGroup {
+        return this.group;
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Commands
+    // -----------------------------------------------------------------------------------------
+
+    private playMove(index: number): void {
+        const moveName = this.moveNames[index];
+        if (!moveName) {
+            return;
+        }
+        this.send(moveName, () => this.group.playRecordedMove(this.datasetName, moveName));
+    }
+
+    /**
+     * Send one group command and report how many robots accepted it
+     */
+    private async send(label: string, command: () => Promise<GroupCommandResult[]>): Promise<void> {
+        if (this.isSending) {
+            return;
+        }
+        this.isSending = true;
+        this.setStatus(`${label}...`);
+        try {
+            const busy = await this.claimRobots();
+            const results = await command();
+            const failed = results.filter((result) => result.error !== null);
+            failed.forEach((result) => print(`RobotGroupPanel: ${label} failed on ${result.robotId}: ${result.error}`));
+            this.setStatus((failed.length === 0
+                ? `${label}: ${results.length} robots`
+                : `${label}: ${results.length - failed.length} / ${results.length} robots (failed: ${failed.map((result) => result.robotId).join(", ")})`)
+                + (busy > 0 ? `, ${busy} not idle` : ""));
+        } finally {
+            this.isSending = false;
+        }
+    }
+
+    /**
+     * Take the robots from their controllers' idle loops
+     * @returns Number of controllers busy in another mode, whose robots may not follow the group
+     */
+    private async claimRobots(): Promise<number> {
+        const claimed = await Promise.all(this.robotClaims.map((claim) => claim.claim()));
+        return claimed.filter((isClaimed) => !isClaimed).length;
+    }
+
+    private releaseRobots(): void {
+        this.robotClaims.forEach((claim) => claim.release());
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private renderRobots(): void {
+        this.nextRobotsRefreshTime = getTime() + this.ROBOTS_REFRESH_INTERVAL;
+        if (!this.robotsLabel) {
+            return;
+        }
+        const lines = this.group.getRobotIds().map((robotId) => {
+            const summary = RobotRegistry.getSummary(robotId);
+            return summary ? `${robotId}: ${summary.connection}` : `${robotId}: not registered`;
+        });
+        this.robotsLabel.text = lines.length > 0 ? lines.join("\n") : "No robots";
+    }
+
+    private setStatus(status: string): void {
+        if (this.statusLabel) {
+            this.statusLabel.text = status;
+        }
+    }
+}
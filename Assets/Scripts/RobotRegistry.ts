@@ -0,0 +1,81 @@
+import Event, {PublicApi} from "SpectaclesInteractionKit.lspkg/Utils/Event"
+import {ConnectionStatus} from "./ConnectionMonitor"
+import {DaemonInterface} from "./DaemonInterface"
+import {RobotStateSnapshot} from "./RobotStateSnapshot"
+
+/**
+ * What the registry knows about one robot connection.
+ */
+export interface RobotSummary {
+    robotId: string;
+    baseUrl: string;
+    connection: ConnectionStatus;
+    lastState: RobotStateSnapshot | null; // Latest state read through this connection
+}
+
+/**
+ * Named robot connections. Every DaemonInterface registers itself under its robot id, so
+ * controllers and panels can bind to a robot by id when several robots are in use.
+ */
+export class RobotRegistry {
+    private static robots: Map<string, DaemonInterface> = new Map<string, DaemonInterface>();
+
+    // Event with the registered robot ids whenever a robot is added or removed
+    private static _onRobotsChangedEvent: Event<string[]> = new Event<string[]>();
+    static readonly onRobotsChanged: PublicApi<string[]> = RobotRegistry._onRobotsChangedEvent.publicApi();
+
+    /**
+     * Add a robot connection; a connection already registered under the same id is replaced
+     */
+    public static register(robot: DaemonInterface): void {
+        const robotId = robot.getRobotId();
+        const existing = RobotRegistry.robots.get(robotId);
+        if (existing && existing !== robot) {
+            print(`RobotRegistry: WARNING - robot id "${robotId}" registered twice, replacing ${existing.getBaseUrl()}`);
+        }
+        RobotRegistry.robots.set(robotId, robot);
+        RobotRegistry._onRobotsChangedEvent.invoke(RobotRegistry.getIds());
+    }
+
+    /**
+     * Remove a robot connection, if it is the one registered under its id
+     */
+    public static unregister(robot: DaemonInterface): void {
+        const robotId = robot.getRobotId();
+        if (RobotRegistry.robots.get(robotId) === robot) {
+            RobotRegistry.robots.delete(robotId);
+            RobotRegistry._onRobotsChangedEvent.invoke(RobotRegistry.getIds());
+        }
+    }
+
+    /**
+     * Get the connection of a robot, or null if no robot is registered under the id
+     */
+    public static get(robotId: string): DaemonInterface | null {
+        return RobotRegistry.robots.get(robotId) ?? null;
+    }
+
+    public static getIds(): string[] {
+        return Array.from(RobotRegistry.robots.keys());
+    }
+
+    public static getAll(): DaemonInterface[] {
+        return Array.from(RobotRegistry.robots.values());
+    }
+
+    /**
+     * Base URL, health and latest state of a robot, or null if it is not registered
+     */
+    public static getSummary(robotId: string): RobotSummary | null {
+        const robot = RobotRegistry.robots.get(robotId);
+        if (!robot) {
+            return null;
+        }
+        return {
+            robotId: robotId,
+            baseUrl: robot.getBaseUrl(),
+            connection: robot.getConnectionStatus(),
+            lastState: robot.getLastRobotState()
+        };
+    }
+}
@@ -0,0 +1,96 @@
+import {XYZRPYPose} from "./DaemonInterface"
+import {DaemonResponseError} from "./DaemonErrors"
+
+/**
+ * Motor control mode reported by the daemon.
+ */
+export enum MotorMode {
+    Enabled = "enabled", // Torque on, motors hold the commanded pose
+    Disabled = "disabled", // Torque off, the robot is limp
+    GravityCompensation = "gravity_compensation" // Compliant, the head can be moved by hand
+}
+
+/**
+ * Health of the daemon's motor control loop, when the daemon reports it.
+ */
+export interface ControlLoopStatus {
+    running: boolean;
+    frequency: number | null; // Measured loop frequency in Hz
+    errors: number | null; // Errors seen since the loop started
+}
+
+/**
+ * Where the robot actually is, as read back from /api/state/full.
+ */
+export interface RobotStateSnapshot {
+    headPose: XYZRPYPose; // World-frame head pose (x, y, z in meters, roll, pitch, yaw in radians)
+    bodyYaw: number; // Radians
+    antennas: [number, number]; // Radians, same order as setTarget
+    motorMode: MotorMode | null; // null if the daemon did not report it
+    controlLoop: ControlLoopStatus | null; // null if the daemon did not report it
+    timestamp: number; // Daemon timestamp in seconds, or lens time if the daemon sent none
+}
+
+/**
+ * Validate and convert a /api/state/full body into a RobotStateSnapshot
+ * @throws DaemonResponseError if a required field is missing or has the wrong type
+ */
+export function parseRobotStateSnapshot(data: any, endpoint: string): RobotStateSnapshot {
+    if (!data || typeof data !== "object") {
+        throw new DaemonResponseError(endpoint, `expected a state object, got ${JSON.stringify(data)}`);
+    }
+
+    const pose = data.head_pose;
+    const poseKeys = ["x", "y", "z", "roll", "pitch", "yaw"];
+    if (!pose || poseKeys.some((key) => typeof pose[key] !== "number")) {
+        throw new DaemonResponseError(endpoint, `head_pose is missing or not an XYZRPY pose`);
+    }
+    if (typeof data.body_yaw !== "number") {
+        throw new DaemonResponseError(endpoint, `body_yaw is missing`);
+    }
+    const antennas = data.antennas_position;
+    if (!Array.isArray(antennas) || antennas.length !== 2 || antennas.some((a: any) => typeof a !== "number")) {
+        throw new DaemonResponseError(endpoint, `antennas_position is missing or not a pair`);
+    }
+
+    return {
+        headPose: {
+            x: pose.x,
+            y: pose.y,
+            z: pose.z,
+            roll: pose.roll,
+            pitch: pose.pitch,
+            yaw: pose.yaw
+        },
+        bodyYaw: data.body_yaw,
+        antennas: [antennas[0], antennas[1]],
+        motorMode: parseMotorMode(data.control_mode),
+        controlLoop: parseControlLoopStatus(data.control_loop),
+        timestamp: typeof data.timestamp === "number" ? data.timestamp : getTime()
+    };
+}
+
+/**
+ * Convert a daemon control mode string into a MotorMode, or null if unknown
+ */
+export function parseMotorMode(value: any): MotorMode | null {
+    switch (value) {
+        case MotorMode.Enabled:
+        case MotorMode.Disabled:
+        case MotorMode.GravityCompensation:
+            return value as MotorMode;
+        default:
+            return null;
+    }
+}
+
+function parseControlLoopStatus(value: any): ControlLoopStatus | null {
+    if (!value || typeof value !== "object") {
+        return null;
+    }
+    return {
+        running: value.running !== false,
+        frequency: typeof value.frequency === "number" ? value.frequency : null,
+        errors: typeof value.errors === "number" ? value.errors : null
+    };
+}
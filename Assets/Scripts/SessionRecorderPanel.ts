@@ -0,0 +1,469 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {
+    getRecordingDuration,
+    MotionRecording,
+    parseMotionRecordingJson,
+    retimeRecording,
+    sampleRecording,
+    serializeMotionRecording,
+    trimRecording
+} from "./MotionRecording"
+import {ReachyMiniController} from "./ReachyMiniController"
+import {StreamTarget} from "./TargetStreamer"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility, setText} from "./UIPanel"
+
+/**
+ * Records the targets streamed to the robot (look-at, teleop, hand control) and replays them through
+ * the set_target stream at their original timing. Recordings can be trimmed and sped up or slowed
+ * down, then saved locally in the daemon's recorded-move format. Replays only start while the controller
+ * is Idle and take the stream over from it, so the two never stream at once.
+ */
+@component
+export class SessionRecorderPanel extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("Controller of the same robot, paused while a replay streams")
+    private controller!: ReachyMiniController;
+
+    @input
+    @hint("Optional UIFrameAnimator of the panel's frame, toggled by the open button")
+    private frameAnimator: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the panel")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("Button starting / stopping a recording")
+    private recordButton!: RectangleButton;
+
+    @input
+    @hint("Button starting / stopping the replay of the current recording")
+    private replayButton!: RectangleButton;
+
+    @input
+    @hint("Button moving the trim start later by trimStep (wraps back to 0)")
+    private trimStartButton: RectangleButton;
+
+    @input
+    @hint("Button moving the trim end earlier by trimStep (wraps back to the full length)")
+    private trimEndButton: RectangleButton;
+
+    @input
+    @hint("Button cycling the replay speed")
+    private speedButton: RectangleButton;
+
+    @input
+    @hint("Button saving the current recording, trimmed and retimed, to local storage")
+    private saveButton: RectangleButton;
+
+    @input
+    @hint("Button cycling through the saved recordings")
+    private savedButton: RectangleButton;
+
+    @input
+    @hint("Button printing the current recording as recorded-move JSON to the logs")
+    private exportButton: RectangleButton;
+
+    @input
+    @hint("Text showing the current recording, its trim and speed")
+    private recordingLabel!: Text;
+
+    @input
+    @hint("Text showing recording / replay status")
+    private statusLabel!: Text;
+
+    @input
+    @hint("Samples per second kept while recording")
+    private recordRateHz: number = 30;
+
+    @input
+    @hint("Recordings stop automatically after this many seconds")
+    private maxRecordDuration: number = 120;
+
+    @input
+    @hint("Seconds added or removed per press of the trim buttons")
+    private trimStep: number = 0.5;
+
+    @input
+    @hint("Speeds offered by the speed button")
+    private speeds: number[] = [0.5, 0.75, 1.0, 1.5, 2.0];
+
+    @input
+    @hint("Persistent storage key prefix for saved recordings")
+    private storagePrefix: string = "reachy_session";
+
+    private recording: MotionRecording | null = null;
+    private recordingName: string = "";
+    private isRecording: boolean = false;
+    private recordStartTime: number = 0;
+    private lastSampleTime: number = -Infinity;
+
+    private isReplaying: boolean = false;
+    private isStartingReplay: boolean = false;
+    private replayStartTime: number = 0;
+    private trimStart: number = 0;
+    private trimEnd: number = 0;
+    private speedIndex: number = 2; // 1.0
+    private savedIndex: number = -1;
+    private visibility: PanelVisibility;
+
+    onAwake() {
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.onTargetStreamed) {
+            daemon.onTargetStreamed.add((target: StreamTarget) => this.recordTarget(target));
+        }
+
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        if (this.recordButton) {
+            this.recordButton.onTriggerUp.add(() => {
+                if (this.isRecording) {
+                    this.stopRecording();
+                } else {
+                    this.startRecording();
+                }
+            });
+        }
+        if (this.replayButton) {
+            this.replayButton.onTriggerUp.add(() => {
+                if (this.isReplaying) {
+                    this.stopReplay("Replay stopped");
+                } else {
+                    this.startReplay();
+                }
+            });
+        }
+        if (this.trimStartButton) {
+            this.trimStartButton.onTriggerUp.add(() => this.stepTrimStart());
+        }
+        if (this.trimEndButton) {
+            this.trimEndButton.onTriggerUp.add(() => this.stepTrimEnd());
+        }
+        if (this.speedButton) {
+            this.speedButton.onTriggerUp.add(() => {
+                this.speedIndex = (this.speedIndex + 1) % Math.max(1, this.speeds.length);
+                this.renderRecording();
+            });
+        }
+        if (this.saveButton) {
+            this.saveButton.onTriggerUp.add(() => this.saveRecording());
+        }
+        if (this.savedButton) {
+            this.savedButton.onTriggerUp.add(() => this.loadNextSaved());
+        }
+        if (this.exportButton) {
+            this.exportButton.onTriggerUp.add(() => {
+                const edited = this.getEditedRecording();
+                if (edited) {
+                    print(`SessionRecorderPanel: ${serializeMotionRecording(edited)}`);
+                    this.setStatus("Exported to logs");
+                }
+            });
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            if (this.isReplaying) {
+                this.updateReplay();
+            } else if (this.isRecording && getTime() - this.recordStartTime > this.maxRecordDuration) {
+                this.stopRecording();
+            }
+        });
+
+        this.renderRecording();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the panel
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Names of the recordings saved in local storage
+     */
+    public getSavedNames(): string[] {
+        const store = global.persistentStorageSystem.store;
+        const key = this.getIndexKey();
+        if (!store.has(key)) {
+            return [];
+        }
+        try {
+            const names = JSON.parse(store.getString(key));
+            return Array.isArray(names) ? names.filter((name: any) => typeof name === "string") : [];
+        } catch (error) {
+            print(`SessionRecorderPanel: Invalid recording index, ignoring: ${error}`);
+            return [];
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Recording
+    // -----------------------------------------------------------------------------------------
+
+    private startRecording(): void {
+        if (this.isReplaying) {
+            this.stopReplay("Replay stopped");
+        }
+        this.recording = {description: "Session recorded on Spectacles", samples: []};
+        this.recordingName = "";
+        this.isRecording = true;
+        this.recordStartTime = getTime();
+        this.lastSampleTime = -Infinity;
+        this.setStatus("● Recording");
+        this.renderRecording();
+    }
+
+    private stopRecording(): void {
+        if (!this.isRecording) {
+            return;
+        }
+        this.isRecording = false;
+        this.resetEdits();
+        const count = this.recording ? this.recording.samples.length : 0;
+        this.setStatus(count > 0 ? `Recorded ${count} samples` : "Nothing was streamed");
+        this.renderRecording();
+    }
+
+    /**
+     * Keep a streamed target, throttled to recordRateHz
+     */
+    private recordTarget(target: StreamTarget): void {
+        if (!this.isRecording || this.isReplaying || !this.recording) {
+            return;
+        }
+        const now = getTime();
+        if (now - this.lastSampleTime < 1 / Math.max(1, this.recordRateHz)) {
+            return;
+        }
+        this.lastSampleTime = now;
+        this.recording.samples.push({
+            time: now - this.recordStartTime,
+            headPose: {...target.headPose},
+            bodyYaw: target.bodyYaw ?? 0,
+            antennas: [target.antennas[0], target.antennas[1]]
+        });
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Replay
+    // -----------------------------------------------------------------------------------------
+
+    private async startReplay(): Promise<void> {
+        if (!this.recording || this.recording.samples.length === 0) {
+            this.setStatus("No recording to replay");
+            return;
+        }
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.streamTarget || !this.controller || this.isStartingReplay) {
+            return;
+        }
+        if (this.isRecording) {
+            this.stopRecording();
+        }
+        this.isStartingReplay = true;
+        const started = await this.controller.startReplay();
+        this.isStartingReplay = false;
+        if (!started) {
+            this.setStatus("Return the robot to idle to replay");
+            return;
+        }
+        this.isReplaying = true;
+        this.replayStartTime = getTime();
+        this.setStatus("▶ Replaying");
+    }
+
+    /**
+     * Stream the recording's pose at the current replay time, within the trim range and at the selected speed
+     */
+    private updateReplay(): void {
+        if (!this.controller.isReplaying()) {
+            this.stopReplay("Replay interrupted"); // Another mode took the robot over
+            return;
+        }
+        const time = this.trimStart + (getTime() - this.replayStartTime) * this.getSpeed();
+        if (time > this.trimEnd) {
+            this.stopReplay("Replay finished");
+            return;
+        }
+        const sample = sampleRecording(this.recording, time);
+        if (sample) {
+            const daemon = this.daemonInterface as any;
+            daemon.streamTarget(sample.headPose, sample.bodyYaw, sample.antennas);
+        }
+    }
+
+    private stopReplay(status: string): void {
+        this.isReplaying = false;
+        const daemon = this.daemonInterface as any;
+        if (daemon && daemon.clearStreamedTarget) {
+            daemon.clearStreamedTarget();
+        }
+        this.setStatus(status);
+        if (this.controller) {
+            this.controller.finishReplay();
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Editing / storage
+    // -----------------------------------------------------------------------------------------
+
+    private stepTrimStart(): void {
+        if (!this.recording) {
+            return;
+        }
+        const next = this.trimStart + this.trimStep;
+        this.trimStart = next < this.trimEnd ? next : 0;
+        this.renderRecording();
+    }
+
+    private stepTrimEnd(): void {
+        if (!this.recording) {
+            return;
+        }
+        const next = this.trimEnd - this.trimStep;
+        this.trimEnd = next > this.trimStart ? next : getRecordingDuration(this.recording);
+        this.renderRecording();
+    }
+
+    /**
+     * The current recording with the trim and speed applied, as it would be saved
+     */
+    private getEditedRecording(): MotionRecording | null {
+        if (!this.recording || this.recording.samples.length === 0) {
+            this.setStatus("No recording");
+            return null;
+        }
+        return retimeRecording(trimRecording(this.recording, this.trimStart, this.trimEnd), this.getSpeed());
+    }
+
+    private saveRecording(): void {
+        const edited = this.getEditedRecording();
+        if (!edited || this.isRecording) {
+            return;
+        }
+        const names = this.getSavedNames();
+        let name = this.recordingName;
+        if (!name) {
+            let index = names.length + 1;
+            while (names.indexOf(`session-${index}`) >= 0) {
+                index++;
+            }
+            name = `session-${index}`;
+        }
+
+        // The store is shared with the calibration, presets and endpoint, and isn't saved at all once full:
+        // refuse recordings that wouldn't fit instead of losing every other key
+        const store = global.persistentStorageSystem.store;
+        const key = this.getRecordingKey(name);
+        const json = serializeMotionRecording(edited);
+        const previous = store.has(key) ? store.getString(key) : null;
+        const freeBytes = this.getFreeStorageBytes() + (previous ? previous.length + key.length : 0);
+        const indexGrowth = names.indexOf(name) < 0 ? name.length + 3 : 0; // ,"name" added to the index
+        if (json.length + key.length + indexGrowth > freeBytes) {
+            this.setStatus(`Recording too large (${Math.ceil(json.length / 1024)} KB, ${Math.floor(Math.max(0, freeBytes) / 1024)} KB free): trim it`);
+            return;
+        }
+
+        store.putString(key, json);
+        if (names.indexOf(name) < 0) {
+            names.push(name);
+            store.putString(this.getIndexKey(), JSON.stringify(names));
+        }
+
+        // Keep editing the saved version
+        this.recording = edited;
+        this.recordingName = name;
+        this.savedIndex = names.indexOf(name);
+        this.resetEdits();
+        this.setStatus(`Saved ${name}`);
+        this.renderRecording();
+    }
+
+    /**
+     * Bytes left in the persistent store. getSizeInBytes only reports the size while a store-full handler
+     * is set, so a logging one is set for the call when no other component has one.
+     */
+    private getFreeStorageBytes(): number {
+        const store = global.persistentStorageSystem.store;
+        const otherHandler = store.onStoreFull;
+        if (!otherHandler) {
+            store.onStoreFull = () => print(`SessionRecorderPanel: Persistent storage is full`);
+        }
+        try {
+            return store.getMaxSizeInBytes() - store.getSizeInBytes();
+        } finally {
+            if (!otherHandler) {
+                store.onStoreFull = otherHandler;
+            }
+        }
+    }
+
+    private loadNextSaved(): void {
+        const names = this.getSavedNames();
+        if (names.length === 0) {
+            this.setStatus("No saved recordings");
+            return;
+        }
+        if (this.isReplaying) {
+            this.stopReplay("Replay stopped");
+        }
+        this.savedIndex = (this.savedIndex + 1) % names.length;
+        const name = names[this.savedIndex];
+        try {
+            this.recording = parseMotionRecordingJson(global.persistentStorageSystem.store.getString(this.getRecordingKey(name)));
+            this.recordingName = name;
+            this.resetEdits();
+            this.setStatus(`Loaded ${name}`);
+        } catch (error) {
+            print(`SessionRecorderPanel: Could not load ${name}: ${error}`);
+            this.setStatus(`Could not load ${name}`);
+        }
+        this.renderRecording();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private resetEdits(): void {
+        this.trimStart = 0;
+        this.trimEnd = this.recording ? getRecordingDuration(this.recording) : 0;
+        this.speedIndex = Math.max(0, this.speeds.indexOf(1.0));
+    }
+
+    private getSpeed(): number {
+        return this.speeds[this.speedIndex] ?? 1.0;
+    }
+
+    private getIndexKey(): string {
+        return `${this.storagePrefix}_index`;
+    }
+
+    private getRecordingKey(name: string): string {
+        return `${this.storagePrefix}_${name}`;
+    }
+
+    private renderRecording(): void {
+        if (!this.recording) {
+            setText(this.recordingLabel, "No recording");
+            return;
+        }
+        const name = this.recordingName || "unsaved";
+        setText(this.recordingLabel, `${name}  ${getRecordingDuration(this.recording).toFixed(1)}s`
+            + `  |  trim ${this.trimStart.toFixed(1)}-${this.trimEnd.toFixed(1)}s  x${this.getSpeed()}`);
+    }
+
+    private setStatus(status: string): void {
+        setText(this.statusLabel, status);
+    }
+}
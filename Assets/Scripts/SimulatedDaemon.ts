@@ -0,0 +1,198 @@
+import {XYZRPYPose} from "./DaemonInterface"
+import {MotorMode, parseMotorMode} from "./RobotStateSnapshot"
+
+/**
+ * Reply of the simulated daemon to one request.
+ */
+export interface SimulatedResponse {
+    status: number;
+    data: any;
+}
+
+/**
+ * Pose of the simulated robot.
+ */
+interface SimulatedPose {
+    headPose: XYZRPYPose;
+    bodyYaw: number;
+    antennas: [number, number];
+}
+
+/**
+ * A move being played: an interpolation from one pose to another.
+ */
+interface SimulatedMove {
+    uuid: string;
+    from: SimulatedPose;
+    to: SimulatedPose;
+    startTime: number;
+    duration: number;
+    interpolation: string;
+}
+
+const NEUTRAL_POSE: SimulatedPose = {
+    headPose: {x: 0, y: 0, z: 0, roll: 0, pitch: 0, yaw: 0},
+    bodyYaw: 0,
+    antennas: [0, 0]
+};
+
+/** Head down, antennas folded back */
+const SLEEP_POSE: SimulatedPose = {
+    headPose: {x: 0, y: 0, z: -0.01, roll: 0, pitch: 0.5, yaw: 0},
+    bodyYaw: 0,
+    antennas: [-3.05, 3.05]
+};
+
+/** Length of the placeholder played for recorded moves, whose poses the simulator doesn't have */
+const RECORDED_MOVE_DURATION: number = 3.0;
+
+/**
+ * In-memory stand-in for the Reachy Mini daemon, used by DaemonInterface in twin-only mode.
+ * Answers the endpoints the lens uses with daemon-shaped JSON: set_target moves the robot at once,
+ * goto and the wake-up / sleep animations interpolate (minjerk, or linear), and recorded moves run for
+ * a fixed time without moving since their poses only exist on the daemon.
+ */
+export class SimulatedDaemon {
+    private pose: SimulatedPose = clonePose(NEUTRAL_POSE);
+    private moves: SimulatedMove[] = [];
+    private motorMode: MotorMode = MotorMode.Enabled;
+    private volume: number = 50;
+    private nextMoveId: number = 1;
+
+    /**
+     * Answer a request as the daemon would
+     * @param endpoint Endpoint with its query string, e.g. /api/state/full?with_head_pose=true
+     * @param now Lens time in seconds
+     */
+    public handle(endpoint: string, method: string, body: any, now: number): SimulatedResponse {
+        this.update(now);
+        const path = endpoint.split("?")[0];
+
+        if (method === "GET") {
+            switch (path) {
+                case "/api/health":
+                    return ok({status: "ok"});
+                case "/api/daemon/status":
+                    return ok({state: "running", robot_name: "simulated", version: null, simulation_enabled: true, error: null});
+                case "/api/state/full":
+                    return ok({
+                        head_pose: {...this.pose.headPose},
+                        body_yaw: this.pose.bodyYaw,
+                        antennas_position: [...this.pose.antennas],
+                        control_mode: this.motorMode,
+                        timestamp: now
+                    });
+                case "/api/move/running":
+                    return ok(this.moves.map((move) => ({uuid: move.uuid})));
+                case "/api/motors/status":
+                    return ok({mode: this.motorMode});
+                case "/api/audio/list":
+                    return ok([]);
+                case "/api/volume/current":
+                    return ok({volume: this.volume});
+                case "/api/audio/doa":
+                    return ok({angle: Math.PI / 2, speech_detected: false, timestamp: now});
+            }
+            if (path.indexOf("/api/move/recorded-move-datasets/list/") === 0) {
+                return ok([]);
+            }
+        } else if (method === "POST") {
+            switch (path) {
+                case "/api/move/set_target":
+                    this.moves = [];
+                    this.pose = {
+                        headPose: {...NEUTRAL_POSE.headPose, ...(body && body.target_head_pose)},
+                        bodyYaw: body && typeof body.target_body_yaw === "number" ? body.target_body_yaw : this.pose.bodyYaw,
+                        antennas: body && Array.isArray(body.target_antennas) ? [body.target_antennas[0], body.target_antennas[1]] : this.pose.antennas
+                    };
+                    return ok({status: "ok"});
+                case "/api/move/goto":
+                    return ok(this.startMove({
+                        headPose: {...NEUTRAL_POSE.headPose, ...(body && body.head_pose)},
+                        bodyYaw: body && typeof body.body_yaw === "number" ? body.body_yaw : this.pose.bodyYaw,
+                        antennas: body && Array.isArray(body.antennas) ? [body.antennas[0], body.antennas[1]] : [0, 0]
+                    }, body && typeof body.duration === "number" ? body.duration : 0.5, body ? body.interpolation : "minjerk", now));
+                case "/api/move/play/wake_up":
+                    return ok(this.startMove(NEUTRAL_POSE, 2.0, "minjerk", now));
+                case "/api/move/play/goto_sleep":
+                    return ok(this.startMove(SLEEP_POSE, 2.0, "minjerk", now));
+                case "/api/move/stop":
+                    this.moves = this.moves.filter((move) => !body || move.uuid !== body.uuid);
+                    return ok({status: "ok"});
+                case "/api/audio/play":
+                    return ok({status: "ok"});
+                case "/api/volume/set":
+                    this.volume = body && typeof body.volume === "number" ? body.volume : this.volume;
+                    return ok({volume: this.volume});
+            }
+            if (path.indexOf("/api/move/play/recorded-move-dataset/") === 0) {
+                return ok(this.startMove(this.pose, RECORDED_MOVE_DURATION, "linear", now));
+            }
+            if (path.indexOf("/api/motors/set_mode/") === 0) {
+                const mode = parseMotorMode(path.substring("/api/motors/set_mode/".length));
+                if (mode === null) {
+                    return {status: 422, data: {detail: `unknown motor mode in ${path}`}};
+                }
+                this.motorMode = mode;
+                return ok({status: "ok"});
+            }
+        }
+        return {status: 404, data: {detail: `${method} ${path} is not simulated`}};
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Motion
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Replace any running move with a new one from the current pose
+     */
+    private startMove(to: SimulatedPose, duration: number, interpolation: string, now: number): {uuid: string} {
+        const move: SimulatedMove = {
+            uuid: `simulated-${this.nextMoveId++}`,
+            from: clonePose(this.pose),
+            to: clonePose(to),
+            startTime: now,
+            duration: Math.max(0, duration),
+            interpolation: interpolation
+        };
+        this.moves = [move];
+        return {uuid: move.uuid};
+    }
+
+    /**
+     * Advance the running move; finished moves leave the list
+     */
+    private update(now: number): void {
+        this.moves = this.moves.filter((move) => {
+            const t = move.duration > 0 ? Math.min(1, (now - move.startTime) / move.duration) : 1;
+            const s = move.interpolation === "linear" ? t : t * t * t * (10 - 15 * t + 6 * t * t);
+            this.pose = interpolatePose(move.from, move.to, s);
+            return t < 1;
+        });
+    }
+}
+
+function ok(data: any): SimulatedResponse {
+    return {status: 200, data: data};
+}
+
+function clonePose(pose: SimulatedPose): SimulatedPose {
+    return {headPose: {...pose.headPose}, bodyYaw: pose.bodyYaw, antennas: [pose.antennas[0], pose.antennas[1]]};
+}
+
+function interpolatePose(from: SimulatedPose, to: SimulatedPose, s: number): SimulatedPose {
+    const lerp = (a: number, b: number) => a + (b - a) * s;
+    return {
+        headPose: {
+            x: lerp(from.headPose.x, to.headPose.x),
+            y: lerp(from.headPose.y, to.headPose.y),
+            z: lerp(from.headPose.z, to.headPose.z),
+            roll: lerp(from.headPose.roll, to.headPose.roll),
+            pitch: lerp(from.headPose.pitch, to.headPose.pitch),
+            yaw: lerp(from.headPose.yaw, to.headPose.yaw)
+        },
+        bodyYaw: lerp(from.bodyYaw, to.bodyYaw),
+        antennas: [lerp(from.antennas[0], to.antennas[0]), lerp(from.antennas[1], to.antennas[1])]
+    };
+}
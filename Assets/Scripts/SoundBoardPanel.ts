@@ -0,0 +1,215 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {AudioPriority} from "./AudioQueue"
+import {RobotAudio} from "./RobotAudio"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+import {PanelVisibility, setText} from "./UIPanel"
+
+@component
+export class SoundBoardPanel extends BaseScriptComponent {
+    @input("Component.ScriptComponent")
+    @hint("Reference to the DaemonInterface component of the robot")
+    private daemonInterface!: ScriptComponent;
+
+    @input
+    @hint("RobotAudio queue the clips are played through")
+    private robotAudio!: RobotAudio;
+
+    @input
+    @hint("UIFrameAnimator of the panel's frame, used to show/hide the sound board")
+    private frameAnimator!: UIFrameAnimator;
+
+    @input
+    @hint("Optional button toggling the sound board")
+    private openButton: RectangleButton;
+
+    @input
+    @hint("One button per visible clip; the page size is the number of buttons")
+    private clipButtons: RectangleButton[] = [];
+
+    @input
+    @hint("Text labels for the clip buttons, in the same order")
+    private clipLabels: Text[] = [];
+
+    @input
+    private previousPageButton!: RectangleButton;
+
+    @input
+    private nextPageButton!: RectangleButton;
+
+    @input
+    @hint("Text showing the current page (e.g. 2 / 5)")
+    private pageLabel!: Text;
+
+    @input
+    private volumeDownButton!: RectangleButton;
+
+    @input
+    private volumeUpButton!: RectangleButton;
+
+    @input
+    @hint("Text showing the robot's speaker volume")
+    private volumeLabel!: Text;
+
+    @input
+    @hint("Volume change per press of the volume buttons (0-100 scale)")
+    private volumeStep: number = 10;
+
+    @input
+    @hint("Text showing loading / playing status")
+    private statusLabel!: Text;
+
+    private clips: string[] = [];
+    private pageIndex: number = 0;
+    private volume: number = -1; // Unknown until read from the daemon
+    private visibility: PanelVisibility;
+    private isLoading: boolean = false;
+    private isSettingVolume: boolean = false;
+
+    onAwake() {
+        this.visibility = new PanelVisibility(this.frameAnimator, this.openButton, (visible) => this.setVisible(visible));
+        if (this.previousPageButton) {
+            this.previousPageButton.onTriggerUp.add(() => this.setPage(this.pageIndex - 1));
+        }
+        if (this.nextPageButton) {
+            this.nextPageButton.onTriggerUp.add(() => this.setPage(this.pageIndex + 1));
+        }
+        if (this.volumeDownButton) {
+            this.volumeDownButton.onTriggerUp.add(() => this.changeVolume(-this.volumeStep));
+        }
+        if (this.volumeUpButton) {
+            this.volumeUpButton.onTriggerUp.add(() => this.changeVolume(this.volumeStep));
+        }
+        this.clipButtons.forEach((button, row) => {
+            button.onTriggerUp.add(() => this.playRow(row));
+        });
+
+        this.renderPage();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Show or hide the sound board, loading the clips and volume when shown
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        if (visible) {
+            this.refresh();
+        }
+        await this.visibility.setVisible(visible);
+    }
+
+    /**
+     * Reload the clip list and the volume from the daemon
+     */
+    public async refresh(): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.listAudioClips || this.isLoading) {
+            return;
+        }
+
+        this.isLoading = true;
+        this.setStatus("Loading clips...");
+        try {
+            const clips: string[] = await daemon.listAudioClips();
+            this.clips = clips.slice().sort();
+            this.setStatus(`${clips.length} clips`);
+        } catch (error) {
+            print(`SoundBoardPanel: Error listing clips: ${error}`);
+            this.setStatus("Could not load clips");
+        } finally {
+            this.isLoading = false;
+        }
+        this.setPage(this.pageIndex);
+
+        try {
+            this.volume = await daemon.getVolume();
+        } catch (error) {
+            print(`SoundBoardPanel: Error reading volume: ${error}`);
+        }
+        this.renderVolume();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Playback / volume
+    // -----------------------------------------------------------------------------------------
+
+    private playRow(row: number): void {
+        const clip = this.clips[this.pageIndex * this.getPageSize() + row];
+        if (!clip || !this.robotAudio) {
+            return;
+        }
+        // Explicit user request: queued ahead of state and move cues
+        const accepted = this.robotAudio.play(clip, AudioPriority.High);
+        this.setStatus(accepted ? `♪ ${clip}` : `Dropped ${clip}`);
+    }
+
+    private async changeVolume(delta: number): Promise<void> {
+        const daemon = this.daemonInterface as any;
+        if (!daemon || !daemon.setVolume || this.volume < 0 || this.isSettingVolume) {
+            return;
+        }
+
+        const volume = Math.max(0, Math.min(100, this.volume + delta));
+        this.isSettingVolume = true;
+        try {
+            await daemon.setVolume(volume);
+            this.volume = volume;
+        } catch (error) {
+            print(`SoundBoardPanel: Error setting volume to ${volume}: ${error}`);
+            this.setStatus("Could not set volume");
+        } finally {
+            this.isSettingVolume = false;
+        }
+        this.renderVolume();
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Paging
+    // -----------------------------------------------------------------------------------------
+
+    private getPageSize(): number {
+        return Math.max(1, this.clipButtons.length);
+    }
+
+    private getPageCount(): number {
+        return Math.max(1, Math.ceil(this.clips.length / this.getPageSize()));
+    }
+
+    private setPage(pageIndex: number): void {
+        this.pageIndex = Math.max(0, Math.min(this.getPageCount() - 1, pageIndex));
+        this.renderPage();
+    }
+
+    private renderPage(): void {
+        const pageSize = this.getPageSize();
+        const start = this.pageIndex * pageSize;
+
+        this.clipButtons.forEach((button, row) => {
+            const clip = this.clips[start + row];
+            button.getSceneObject().enabled = clip !== undefined;
+            setText(this.clipLabels[row], clip ?? "");
+        });
+
+        setText(this.pageLabel, `${this.pageIndex + 1} / ${this.getPageCount()}`);
+        if (this.previousPageButton) {
+            this.previousPageButton.getSceneObject().enabled = this.pageIndex > 0;
+        }
+        if (this.nextPageButton) {
+            this.nextPageButton.getSceneObject().enabled = this.pageIndex < this.getPageCount() - 1;
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private renderVolume(): void {
+        setText(this.volumeLabel, this.volume < 0 ? "Volume --" : `Volume ${this.volume}`);
+    }
+
+    private setStatus(status: string): void {
+        setText(this.statusLabel, status);
+    }
+}
@@ -0,0 +1,201 @@
+/**
+ * Passed to enter/exit hooks. A transition is cancelled when a newer one is requested
+ * while it is still running; long hooks should check isCancelled() after each await and bail out.
+ */
+export interface TransitionContext<S extends string> {
+    readonly from: S;
+    readonly to: S;
+    isCancelled(): boolean;
+}
+
+/**
+ * Async hooks run when a state is entered or left.
+ */
+export interface StateHooks<S extends string> {
+    onEnter?: (context: TransitionContext<S>) => Promise<void> | void;
+    onExit?: (context: TransitionContext<S>) => Promise<void> | void;
+}
+
+/**
+ * A declared transition. `from: "*"` allows the transition from any state.
+ * The optional guard can veto the transition at request time.
+ */
+export interface TransitionRule<S extends string> {
+    from: S | S[] | "*";
+    to: S | S[];
+    guard?: (from: S, to: S) => boolean;
+}
+
+export type StateChangedListener<S extends string> = (to: S, from: S) => void;
+
+interface PendingTransition<S extends string> {
+    to: S;
+    resolve: (applied: boolean) => void;
+}
+
+/**
+ * Finite state machine with declared transitions, guards and async enter/exit hooks.
+ * Transitions are serialized: a request made while another transition runs cancels the running
+ * one's context, waits for its hooks to return, then proceeds. Only the latest pending request is
+ * kept; superseded requests resolve to false.
+ * Has no Lens Studio dependencies.
+ */
+export class StateMachine<S extends string> {
+    private currentState: S;
+    private rules: TransitionRule<S>[];
+    private hooks: Map<S, StateHooks<S>> = new Map<S, StateHooks<S>>();
+    private listeners: StateChangedListener<S>[] = [];
+    private onHookError: (error: any, context: TransitionContext<S>) => void;
+
+    private pending: PendingTransition<S> | null = null;
+    private activeContext: {cancelled: boolean} | null = null;
+    private isProcessing: boolean = false;
+
+    constructor(
+        initialState: S,
+        rules: TransitionRule<S>[],
+        onHookError: (error: any, context: TransitionContext<S>) => void = () => {}
+    ) {
+        this.currentState = initialState;
+        this.rules = rules;
+        this.onHookError = onHookError;
+    }
+
+    get state(): S {
+        return this.currentState;
+    }
+
+    /**
+     * Whether a transition's hooks are currently running
+     */
+    get isTransitioning(): boolean {
+        return this.isProcessing;
+    }
+
+    /**
+     * Register the enter/exit hooks of a state (replaces previous hooks)
+     */
+    public setHooks(state: S, hooks: StateHooks<S>): void {
+        this.hooks.set(state, hooks);
+    }
+
+    /**
+     * Listen for state changes. Called once the state has changed, before the enter hook runs.
+     * @returns Function removing the listener
+     */
+    public onStateChanged(listener: StateChangedListener<S>): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index >= 0) {
+                this.listeners.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Whether a transition from the current state to `to` is declared and allowed by its guard
+     */
+    public canTransition(to: S, from: S = this.currentState): boolean {
+        return this.rules.some((rule) => this.matches(rule.from, from)
+            && this.matches(rule.to, to)
+            && (!rule.guard || rule.guard(from, to)));
+    }
+
+    /**
+     * Request a transition. Runs the exit hook of the current state, changes state, then runs the enter hook.
+     * @returns true once the transition was applied, false if it was rejected or superseded
+     */
+    public transition(to: S): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            if (this.pending) {
+                this.pending.resolve(false);
+            }
+            this.pending = {to: to, resolve: resolve};
+            if (this.activeContext) {
+                this.activeContext.cancelled = true;
+            }
+            if (!this.isProcessing) {
+                this.processPending();
+            }
+        });
+    }
+
+    /**
+     * Set the state without running hooks or checking transitions (e.g. when restoring a state
+     * detected from the robot). Cancels the running transition and drops any pending one.
+     */
+    public reset(state: S): void {
+        if (this.pending) {
+            this.pending.resolve(false);
+            this.pending = null;
+        }
+        if (this.activeContext) {
+            this.activeContext.cancelled = true;
+        }
+        const from = this.currentState;
+        this.currentState = state;
+        if (from !== state) {
+            this.notify(state, from);
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Internals
+    // -----------------------------------------------------------------------------------------
+
+    private async processPending(): Promise<void> {
+        this.isProcessing = true;
+        while (this.pending) {
+            const request = this.pending;
+            this.pending = null;
+
+            const from = this.currentState;
+            if (from === request.to || !this.canTransition(request.to, from)) {
+                request.resolve(false);
+                continue;
+            }
+
+            const token = {cancelled: false};
+            this.activeContext = token;
+            const context: TransitionContext<S> = {
+                from: from,
+                to: request.to,
+                isCancelled: () => token.cancelled
+            };
+
+            await this.runHook(this.hooks.get(from)?.onExit, context);
+            this.currentState = request.to;
+            this.notify(request.to, from);
+            request.resolve(true);
+            await this.runHook(this.hooks.get(request.to)?.onEnter, context);
+
+            if (this.activeContext === token) {
+                this.activeContext = null;
+            }
+        }
+        this.isProcessing = false;
+    }
+
+    private async runHook(hook: ((context: TransitionContext<S>) => Promise<void> | void) | undefined, context: TransitionContext<S>): Promise<void> {
+        if (!hook) {
+            return;
+        }
+        try {
+            await hook(context);
+        } catch (error) {
+            this.onHookError(error, context);
+        }
+    }
+
+    private notify(to: S, from: S): void {
+        this.listeners.slice().forEach((listener) => listener(to, from));
+    }
+
+    private matches(pattern: S | S[] | "*", state: S): boolean {
+        if (pattern === "*") {
+            return true;
+        }
+        return Array.isArray(pattern) ? pattern.indexOf(state) >= 0 : pattern === state;
+    }
+}
@@ -0,0 +1,353 @@
+import {XYZRPYPose} from "./DaemonInterface"
+
+/**
+ * A single real-time target for the robot, as sent to /api/move/set_target.
+ */
+export interface StreamTarget {
+    headPose: XYZRPYPose;
+    bodyYaw?: number;
+    antennas: [number, number];
+}
+
+/**
+ * Counters exposed for tuning the streaming rate against the daemon.
+ */
+export interface StreamStats {
+    transport: "websocket" | "http" | "none";
+    sentFrames: number;
+    droppedFrames: number; // Targets overwritten by a newer one before they could be sent
+    failedFrames: number;
+    lastLatencyMs: number; // Last measured round trip, -1 until one has been measured
+    averageLatencyMs: number; // Exponential moving average of the round trip
+    // What the latency measures: the HTTP set_target round trip, or while streaming over the WebSocket
+    // (which doesn't answer accepted targets) an HTTP /api/health round trip beside the socket
+    latencySource: "set_target" | "health_ping" | "none";
+}
+
+/**
+ * Callbacks used by the streamer to reach the daemon, provided by DaemonInterface.
+ */
+export interface TargetStreamerHost {
+    /** Open a WebSocket to the daemon's streaming endpoint, or return null if unavailable */
+    createSocket(): WebSocket | null;
+    /** Send a single target over HTTP, resolving once the daemon has answered */
+    postTarget(target: StreamTarget): Promise<void>;
+    /** Make a lightweight request to the daemon (e.g. /api/health), resolving once it has answered */
+    ping(): Promise<void>;
+}
+
+enum SocketState {
+    Closed,
+    Connecting,
+    Open
+}
+
+/**
+ * Streams set_target commands to the daemon at a fixed rate.
+ * Only the latest target is kept, and at most one command is in flight at a time.
+ * Uses a WebSocket when available and falls back to HTTP POSTs otherwise. The socket gets no reply to
+ * accepted targets, so while it is open the reported latency is that of a periodic HTTP health ping
+ * (see StreamStats.latencySource), not the socket's own.
+ */
+export class TargetStreamer {
+    private readonly LATENCY_SMOOTHING: number = 0.1;
+    private readonly SOCKET_RETRY_INTERVAL: number = 5.0; // Seconds between WebSocket reconnect attempts
+    private readonly ERROR_LOG_INTERVAL: number = 5.0; // Seconds between repeated error logs
+    private readonly PING_INTERVAL: number = 1.0; // Seconds between latency pings while the socket is open
+
+    private host: TargetStreamerHost;
+    private rateHz: number;
+    private useWebSocket: boolean;
+
+    private pendingTarget: StreamTarget | null = null;
+    private inFlight: boolean = false;
+    private lastSendTime: number = 0;
+
+    private socket: WebSocket | null = null;
+    private socketState: SocketState = SocketState.Closed;
+    private lastSocketAttemptTime: number = -Infinity;
+    private isPinging: boolean = false;
+    private lastPingTime: number = -Infinity;
+
+    private lastErrorLogTime: number = -Infinity;
+    private suppressedErrors: number = 0;
+
+    private stats: StreamStats = {
+        transport: "none",
+        sentFrames: 0,
+        droppedFrames: 0,
+        failedFrames: 0,
+        lastLatencyMs: -1,
+        averageLatencyMs: 0,
+        latencySource: "none"
+    };
+
+    constructor(host: TargetStreamerHost, rateHz: number, useWebSocket: boolean) {
+        this.host = host;
+        this.rateHz = Math.max(1, rateHz);
+        this.useWebSocket = useWebSocket;
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // API
+    // -----------------------------------------------------------------------------------------
+
+    /**
+     * Replace the pending target. A target that has not been sent yet is dropped.
+     */
+    public submit(target: StreamTarget): void {
+        if (this.pendingTarget) {
+            this.stats.droppedFrames++;
+        }
+        this.pendingTarget = target;
+    }
+
+    /**
+     * Advance the streamer, sending the pending target if a send slot is due.
+     * Call once per frame.
+     */
+    public tick(): void {
+        if (this.useWebSocket && this.socketState === SocketState.Closed) {
+            this.tryOpenSocket();
+        }
+        if (this.socketState === SocketState.Open) {
+            this.pingIfDue();
+        }
+
+        if (!this.pendingTarget || this.inFlight) {
+            return;
+        }
+
+        const now = getTime();
+        if (now - this.lastSendTime < 1 / this.rateHz) {
+            return;
+        }
+
+        const target = this.pendingTarget;
+        this.pendingTarget = null;
+        this.lastSendTime = now;
+
+        if (this.socketState === SocketState.Open) {
+            this.sendOverSocket(target);
+        } else {
+            this.sendOverHttp(target);
+        }
+    }
+
+    /**
+     * Discard any pending target without sending it.
+     */
+    public clear(): void {
+        this.pendingTarget = null;
+    }
+
+    /**
+     * Change the send rate in Hz.
+     */
+    public setRate(rateHz: number): void {
+        this.rateHz = Math.max(1, rateHz);
+    }
+
+    /**
+     * Get a copy of the current streaming counters.
+     */
+    public getStats(): StreamStats {
+        return {...this.stats};
+    }
+
+    /**
+     * Reset the streaming counters (the transport is kept).
+     */
+    public resetStats(): void {
+        this.stats.sentFrames = 0;
+        this.stats.droppedFrames = 0;
+        this.stats.failedFrames = 0;
+        this.stats.lastLatencyMs = -1;
+        this.stats.averageLatencyMs = 0;
+        this.stats.latencySource = "none";
+    }
+
+    /**
+     * Close the WebSocket and drop any pending target.
+     */
+    public close(): void {
+        this.pendingTarget = null;
+        if (this.socket) {
+            const socket = this.socket;
+            this.socket = null;
+            this.socketState = SocketState.Closed;
+            socket.close();
+        }
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Transports
+    // -----------------------------------------------------------------------------------------
+
+    private sendOverHttp(target: StreamTarget): void {
+        this.inFlight = true;
+        this.stats.transport = "http";
+        const sentAt = getTime();
+
+        this.host.postTarget(target).then(() => {
+            this.stats.sentFrames++;
+            this.recordLatency(getTime() - sentAt, "set_target");
+        }).catch((error) => {
+            this.stats.failedFrames++;
+            this.logError(`HTTP set_target failed: ${error}`);
+        }).finally(() => {
+            this.inFlight = false;
+        });
+    }
+
+    private sendOverSocket(target: StreamTarget): void {
+        this.stats.transport = "websocket";
+        const payload: any = {
+            target_head_pose: target.headPose,
+            target_antennas: target.antennas
+        };
+        if (target.bodyYaw !== undefined) {
+            payload.target_body_yaw = target.bodyYaw;
+        }
+
+        try {
+            this.socket.send(JSON.stringify(payload));
+            this.stats.sentFrames++;
+        } catch (error) {
+            this.stats.failedFrames++;
+            this.logError(`WebSocket send failed, falling back to HTTP: ${error}`);
+            this.handleSocketClosed();
+        }
+    }
+
+    /**
+     * Measure the HTTP round trip with a ping, at most one in flight
+     */
+    private pingIfDue(): void {
+        const now = getTime();
+        if (this.isPinging || now - this.lastPingTime < this.PING_INTERVAL) {
+            return;
+        }
+        this.isPinging = true;
+        this.lastPingTime = now;
+        this.host.ping().then(() => {
+            this.recordLatency(getTime() - now, "health_ping");
+        }).catch((error) => {
+            this.logError(`Latency ping failed: ${error}`);
+        }).finally(() => {
+            this.isPinging = false;
+        });
+    }
+
+    private tryOpenSocket(): void {
+        const now = getTime();
+        if (now - this.lastSocketAttemptTime < this.SOCKET_RETRY_INTERVAL) {
+            return;
+        }
+        this.lastSocketAttemptTime = now;
+
+        let socket: WebSocket | null = null;
+        try {
+            socket = this.host.createSocket();
+        } catch (error) {
+            this.logError(`Could not create WebSocket: ${error}`);
+        }
+        if (!socket) {
+            return;
+        }
+
+        this.socket = socket;
+        this.socketState = SocketState.Connecting;
+
+        socket.onopen = () => {
+            if (this.socket !== socket) {
+                return;
+            }
+            print(`TargetStreamer: WebSocket connected to ${socket.url}`);
+            this.socketState = SocketState.Open;
+        };
+        socket.onmessage = (event: WebSocketMessageEvent) => {
+            if (this.socket !== socket) {
+                return;
+            }
+            const error = parseSocketError(event.data);
+            if (error !== null) {
+                this.stats.failedFrames++;
+                this.logError(`Daemon rejected streamed target: ${error}`);
+            }
+        };
+        socket.onerror = () => {
+            if (this.socket !== socket) {
+                return;
+            }
+            this.logError(`WebSocket error, falling back to HTTP`);
+        };
+        socket.onclose = (event: WebSocketCloseEvent) => {
+            if (this.socket !== socket) {
+                return;
+            }
+            print(`TargetStreamer: WebSocket closed (code ${event.code}), using HTTP until it reconnects`);
+            this.handleSocketClosed();
+        };
+    }
+
+    private handleSocketClosed(): void {
+        this.socket = null;
+        this.socketState = SocketState.Closed;
+    }
+
+    // -----------------------------------------------------------------------------------------
+    // Helpers
+    // -----------------------------------------------------------------------------------------
+
+    private recordLatency(seconds: number, source: "set_target" | "health_ping"): void {
+        const ms = seconds * 1000;
+        if (source !== this.stats.latencySource) {
+            this.stats.lastLatencyMs = -1; // Don't average round trips of different requests
+            this.stats.latencySource = source;
+        }
+        this.stats.averageLatencyMs = this.stats.lastLatencyMs < 0
+            ? ms
+            : this.stats.averageLatencyMs + (ms - this.stats.averageLatencyMs) * this.LATENCY_SMOOTHING;
+        this.stats.lastLatencyMs = ms;
+    }
+
+    /** Log an error, throttled so a dead link does not spam the logger at the stream rate */
+    private logError(message: string): void {
+        const now = getTime();
+        if (now - this.lastErrorLogTime < this.ERROR_LOG_INTERVAL) {
+            this.suppressedErrors++;
+            return;
+        }
+        const suffix = this.suppressedErrors > 0 ? ` (${this.suppressedErrors} similar errors suppressed)` : "";
+        print(`TargetStreamer: ${message}${suffix}`);
+        this.lastErrorLogTime = now;
+        this.suppressedErrors = 0;
+    }
+}
+
+/**
+ * Error reported in a daemon socket message ({"status": "error", "detail": ...}, a bare {"detail": ...}
+ * as FastAPI sends, or {"error": ...}), or null if the message is not an error
+ */
+function parseSocketError(data: any): string | null {
+    if (typeof data !== "string") {
+        return null;
+    }
+    let message: any;
+    try {
+        message = JSON.parse(data);
+    } catch (error) {
+        return null;
+    }
+    if (!message || typeof message !== "object") {
+        return null;
+    }
+    if (message.error !== undefined && message.error !== null) {
+        return typeof message.error === "string" ? message.error : JSON.stringify(message.error);
+    }
+    if (message.status === "error" || (message.status === undefined && message.detail !== undefined)) {
+        return typeof message.detail === "string" ? message.detail : JSON.stringify(message);
+    }
+    return null;
+}
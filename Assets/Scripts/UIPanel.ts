@@ -0,0 +1,51 @@
+import {RectangleButton} from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton"
+import {UIFrameAnimator} from "./UIFrameAnimator"
+
+/**
+ * Show/hide wiring shared by the in-AR panels: the open button toggles the panel and the
+ * UIFrameAnimator shows or hides its frame. Tracks the frame's visibility when it is closed
+ * from its own controls.
+ */
+export class PanelVisibility {
+    private frameAnimator: UIFrameAnimator | undefined;
+    private visible: boolean = false;
+
+    /**
+     * @param frameAnimator Optional animator of the panel's frame
+     * @param openButton Optional button toggling the panel
+     * @param setVisible Called when the open button toggles the panel, usually the panel's own setVisible
+     */
+    constructor(frameAnimator: UIFrameAnimator | undefined, openButton: RectangleButton | undefined,
+                setVisible: (visible: boolean) => void) {
+        this.frameAnimator = frameAnimator;
+        if (openButton) {
+            openButton.onTriggerUp.add(() => setVisible(!this.visible));
+        }
+        if (frameAnimator) {
+            frameAnimator.onFrameVisibilityChanged.add((visible: boolean) => {
+                this.visible = visible;
+            });
+        }
+    }
+
+    public isVisible(): boolean {
+        return this.visible;
+    }
+
+    /**
+     * Show or hide the panel's frame
+     */
+    public async setVisible(visible: boolean): Promise<void> {
+        this.visible = visible;
+        if (this.frameAnimator) {
+            await this.frameAnimator.animateFrameVisibility(visible);
+        }
+    }
+}
+
+/** Set the text of an optional label */
+export function setText(label: Text | undefined, text: string): void {
+    if (label) {
+        label.text = text;
+    }
+}